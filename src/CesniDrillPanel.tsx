@@ -0,0 +1,116 @@
+import { useState } from "react";
+import { type CesniCandidate, type DrillQuestion, type DrillShape, degreeDiffs, describeDiffs, makeDrillQuestion } from "./cesniClassifier";
+
+// Çeşni recognition drill – plays a random built-in çeşni and asks for its name
+
+type CesniDrillPanelProps = {
+  candidates: CesniCandidate[];
+  playKomaSequence: (komas: number[]) => void;   // 53-koma steps from the durak, one note each
+};
+
+type Mistake = { question: DrillQuestion; answerId: string };
+
+const SHAPES: { id: DrillShape; label: string }[] = [
+  { id: 'ascending', label: 'Ascending' },
+  { id: 'descending', label: 'Descending' },
+  { id: 'motif', label: 'Motif' },
+];
+const MAX_REVIEW = 20;
+
+export default function CesniDrillPanel({ candidates, playKomaSequence }: CesniDrillPanelProps) {
+  const [shapes, setShapes] = useState<DrillShape[]>(['ascending', 'descending', 'motif']);
+  const [question, setQuestion] = useState<DrillQuestion | null>(null);
+  const [answerId, setAnswerId] = useState<string | null>(null);
+  const [score, setScore] = useState({ asked: 0, correct: 0 });
+  const [mistakes, setMistakes] = useState<Mistake[]>([]);
+
+  const labelFor = (id: string) => candidates.find(c => c.id === id)?.label ?? id;
+
+  const next = () => {
+    const q = makeDrillQuestion(candidates, shapes);
+    setQuestion(q);
+    setAnswerId(null);
+    if (q) playKomaSequence(q.sequence);
+  };
+
+  const answer = (id: string) => {
+    if (!question || answerId) return;
+    setAnswerId(id);
+    const correct = id === question.cesniId;
+    setScore(s => ({ asked: s.asked + 1, correct: s.correct + (correct ? 1 : 0) }));
+    if (!correct) setMistakes(m => [{ question, answerId: id }, ...m].slice(0, MAX_REVIEW));
+  };
+
+  // How the played çeşni differs from the one answered (same size only)
+  const mistakeDetail = (m: Mistake) => {
+    const played = candidates.find(c => c.id === m.question.cesniId);
+    const given = candidates.find(c => c.id === m.answerId);
+    if (!played || !given) return '';
+    if (played.steps.length !== given.steps.length) return `${played.steps.length} degrees, not ${given.steps.length}`;
+    const diffs = describeDiffs(degreeDiffs(played.steps, given.steps));
+    return diffs ? `it has a ${diffs}` : 'same degrees';
+  };
+
+  return (
+    <div className="rounded-2xl bg-neutral-900 p-4 space-y-3">
+      <div className="flex flex-wrap items-center gap-4">
+        <h2 className="font-semibold">Çeşni drill</h2>
+        {SHAPES.map(s => (
+          <label key={s.id} className="flex items-center gap-2 text-sm">{s.label}
+            <input type="checkbox" checked={shapes.includes(s.id)}
+                   onChange={(e) => setShapes(prev => (e.target.checked ? [...prev, s.id] : prev.filter(x => x !== s.id)))} />
+          </label>
+        ))}
+        <button onClick={next} disabled={!shapes.length} className="px-3 py-1 rounded-md bg-neutral-800 hover:bg-neutral-700 disabled:opacity-50">
+          {question && !answerId ? 'Skip' : 'Play a çeşni'}
+        </button>
+        <button onClick={() => question && playKomaSequence(question.sequence)} disabled={!question}
+                className="px-3 py-1 rounded-md bg-neutral-800 hover:bg-neutral-700 disabled:opacity-50">Play again</button>
+        <span className="text-sm text-neutral-300">
+          Score <span className="font-mono">{score.correct}/{score.asked}</span>
+          {score.asked > 0 && ` (${Math.round((100 * score.correct) / score.asked)}%)`}
+        </span>
+      </div>
+
+      {question && (
+        <>
+          <div className="flex flex-wrap gap-2 text-sm">
+            {candidates.map(c => (
+              <button key={c.id} onClick={() => answer(c.id)} disabled={!!answerId}
+                      className={`px-3 py-1 rounded-md disabled:opacity-60 ${
+                        answerId && c.id === question.cesniId ? 'bg-green-700' : answerId === c.id ? 'bg-red-700' : 'bg-neutral-800 hover:bg-neutral-700'}`}>
+                {c.label}
+              </button>
+            ))}
+          </div>
+          {answerId && (
+            <p className={`text-sm ${answerId === question.cesniId ? 'text-green-400' : 'text-red-400'}`}>
+              {answerId === question.cesniId ? 'Right' : 'Not quite'}: {labelFor(question.cesniId)}, {question.shape},
+              {' '}starting {Math.abs(question.offset)} koma {question.offset >= 0 ? 'above' : 'below'} the durak.
+            </p>
+          )}
+        </>
+      )}
+
+      {mistakes.length > 0 && (
+        <div className="space-y-1">
+          <div className="flex items-center gap-3 text-sm text-neutral-300">
+            Review
+            <button onClick={() => setMistakes([])} className="px-2 py-0.5 rounded-md bg-neutral-800 hover:bg-neutral-700 text-xs">Clear</button>
+          </div>
+          <ul className="text-xs text-neutral-400 space-y-1">
+            {mistakes.map((m, i) => (
+              <li key={i} className="flex flex-wrap items-center gap-2">
+                <button onClick={() => playKomaSequence(m.question.sequence)} className="px-2 py-0.5 rounded-md bg-neutral-800 hover:bg-neutral-700">▶</button>
+                <span>
+                  Played <span className="text-neutral-200">{labelFor(m.question.cesniId)}</span>, you said {labelFor(m.answerId)}
+                  {mistakeDetail(m) && ` – ${mistakeDetail(m)}`}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,30 +1,74 @@
 import React, { useEffect, useMemo, useRef, useState } from "react";
+import { MAKAMS, findMakam } from "./makams";
+import { type Adsr, type VoiceLike } from "./voice";
+import { type InstrumentId, INSTRUMENTS, createVoice, isOscillatorType } from "./instruments";
+import { type SampleSet, loadSampleSet } from "./sampleSet";
+import { type MasterBusSettings, DEFAULT_BUS, MasterBus } from "./masterBus";
+import {
+  type TrainerLevel, type TrainerQuestion, type TrainerResult, type TrainerStats, INTERVAL_TYPES, TRAINER_LEVELS,
+  answerTypesFor, checkNameAnswer, checkStepAnswer, loadTrainerStats, makeQuestion, recordResult, saveTrainerStats,
+} from "./intervalTrainer";
+import { classifyCesni, describeMatch } from "./cesniClassifier";
+import { INTERVAL_SYMBOLS, formatStepList, parseStepList } from "./stepNotation";
+import {
+  type JustMarker, type JustSetId, type JustSettings, DEFAULT_JUST, JUST_BOUNDS, JUST_SETS, buildJustCellsForRange, justBoundKind, justRatios,
+} from "./justRatios";
+import { type TuningId, type TuningTable, TUNING_SYSTEMS, degreeCents, parseCentsTable, tuningTable } from "./tuningSystems";
+import { type Gesture, type GestureMode, type GestureSettings, gestureOffset, stepAtX } from "./gesture";
+import PitchAnalysisPanel from "./PitchAnalysisPanel";
+import StaffPanel from "./StaffPanel";
+import CesniDrillPanel from "./CesniDrillPanel";
+import KeyLayoutPanel from "./KeyLayoutPanel";
+import HexKeyboard from "./HexKeyboard";
+import { type HexSettings, DEFAULT_HEX, HEX_LIMITS, HEX_PRESETS, hexCells } from "./hexGrid";
+import {
+  type KeyLayout, MAX_OCTAVE_SHIFT, keyLegend, loadLayoutStore, readBrowserLayout, rowLegends, stepForAction,
+} from "./keyLayout";
+import { type Perde, describeSpelling, fmtAccidental, komaFromYegah, perdeAt, spellKoma, stepForKoma } from "./perde";
+import { EDO_CHOICES, KOMA_EDO, MAX_EDO, MIN_EDO, centsPerStepFor, fifthStepsFor, remapKomaStep, remapKomaSteps } from "./edo";
+import { type MidiOutMode, MidiOutEngine, MidiVoice, listMidiOutputs } from "./midiOutput";
+import { type SnappedPitch, buildKbm, buildScl, parseScl, sclSize, snapToSteps } from "./scala";
+import { downloadBlob, downloadText } from "./download";
+import { type PerfEvent, type PerfEventType, eventLogDuration, eventLogToJson, eventsToSmf, parseEventLog } from "./recorder";
+import { decodeUrlState, encodeUrlState } from "./urlState";
+import { type SymbTrScore, parseSymbTr } from "./symbtr";
+import {
+  type DiziDirection, type DiziSegment, type DiziStack,
+  MAX_DIZI_SEGMENTS, buildDiziRows, diziSteps, segmentKomaSteps, segmentsFor, stackFromMakam,
+} from "./dizi";
+import { encodeWav, parseStepSequence, peakLevel, renderEvents } from "./offlineRender";
+import {
+  type UserCesni,
+  libraryToJson, loadLibrary, mergeLibrary, newUserCesniId, parseLibraryJson, saveLibrary,
+} from "./cesniLibrary";
+import {
+  type MidiInputInfo, type MidiMapMode,
+  listMidiInputs, parseMidiMessage, requestMidiAccess, stepForMidiNote, velocityToGain,
+} from "./midiInput";
 
 // 53-TET Keyboard – Web Audio React App (D4-centric)
 
 // ------------------------------ Constants & Math ------------------------------
 const D4_FREQ = 293.6647679; // Hz
 const D4_MIDI = 62; // MIDI for D4
-const STEPS = 53; // steps per octave
+const STEPS = 53; // reference division: çeşni recipes are written in 53-koma steps
 const R = Math.pow(2, 1 / STEPS); // ratio per step (koma)
-const CENTS_PER_STEP = 1200 / STEPS; // ≈ 22.6415
 
-const MAX_STEP = 31; // fallback upper bound for kb1 when empty
-const ABS_MAX_STEP = 53; // max absolute step in the octave
+const MAX_STEP = 31; // largest step inside one 53-koma çeşni (a fifth)
+const RETUNE_LOG_CENTS = 5; // a gesture is logged as a retune once it drifts this far from the last logged pitch
+// Inputs that take no typed text; bound keys keep playing while one of these has focus
+const NON_TEXT_INPUT_TYPES = new Set(['range', 'checkbox', 'radio', 'button', 'color', 'file']);
 
-// Generalized key mapping for both keyboards
-function resolveStepForKeyWithOrder(key: string, steps: number[], order: string[]): number | null {
-  const idx = order.indexOf(key.toLowerCase());
-  if (idx === -1) return null;
-  if (idx >= steps.length) return null;
-  return steps[idx] ?? null;
-}
+// Drone: slow swell in and out; plucked strings die away, so they are not offered
+const DRONE_ADSR: Adsr = { attack: 0.4, decay: 0, sustain: 1, filter: null };
+const DRONE_INSTRUMENTS = INSTRUMENTS.filter(i => i.id !== 'kanun' && i.id !== 'ud');
 
 // Math + fmt
 const cents = (ratio: number) => 1200 * Math.log2(ratio);
 const fmtSigned1 = (v: number) => `${v >= 0 ? "+" : ""}${v.toFixed(1)} cents`;
 const fmtHz = (f: number) => `${f.toFixed(2)}`.replace(/\.00$/, '');
 const fmtCents = (c: number) => `${c.toFixed(1)}¢`;
+const fmtRemapError = (c: number) => `${c >= 0 ? '+' : ''}${c.toFixed(1)}¢`;
 
 // Snapping helper
 function nearestFromSet(target: number, set: Set<number>) {
@@ -74,6 +118,10 @@ const CESNI_OPTIONS_RAW: CesniChoice[] = [
   { id: 'ussak_tetra',   label: 'Uşşak tetrachord',   steps: [0, 8, 13, 22] },
   { id: 'sabah_tetra',   label: 'Sabah tetrachord',   steps: [0, 8, 13, 18] },
 
+  // Trichords (used as lower çeşnis in makams joining below the 4th)
+  { id: 'segah_tri',     label: 'Segah trichord',     steps: [0, 5, 14] },
+  { id: 'saba_tri',      label: 'Saba trichord',      steps: [0, 8, 13] },
+
   { id: 'custom', label: 'Custom (enter steps)', steps: [] },
 ];
 
@@ -88,132 +136,63 @@ const CESNI_OPTIONS: CesniChoice[] = CESNI_OPTIONS_RAW
     return a.label.localeCompare(b.label, undefined, { sensitivity: 'base' });
   });
 
-// Custom parser: intervals (koma jumps). Example "8 5 9 9" -> [0, 8, 13, 22, 31]
-function parseStepList(s: string): { steps: number[]; error: string | null } {
-  if (!s.trim()) return { steps: [], error: null };
-
-  const tokens = s.split(/[^0-9]+/).filter(Boolean);
-  const intervals: number[] = [];
-
-  for (const t of tokens) {
-    const n = Number(t);
-    if (!Number.isInteger(n)) return { steps: [], error: `Non-integer token: '${t}'` };
-    if (n < 0 || n > 31) return { steps: [], error: `Out of range interval: ${n} (use 0–31)` };
-    intervals.push(n);
-  }
-
-  // Build cumulative absolute steps, starting from base = 0
-  const steps: number[] = [0];
-  let acc = 0;
-  for (const jump of intervals) {
-    acc += jump;
-    if (acc > 31) return { steps: [], error: `Sum exceeds max step 31 (hit ${acc}).` };
-    steps.push(acc);
-  }
-
-  // De-duplicate while preserving order (in case user typed a 0 interval)
-  const uniq: number[] = [];
-  for (const v of steps) if (!uniq.includes(v)) uniq.push(v);
+const INTERVAL_SYMBOL_LEGEND = Object.entries(INTERVAL_SYMBOLS).map(([sym, v]) => `${sym} = ${v.name} (${v.koma})`).join(', ');
 
-  return { steps: uniq, error: null };
-}
+// Built-in çeşnis the drill and the Custom classifier choose from
+const BUILTIN_CESNIS = CESNI_OPTIONS.filter(o => o.id !== 'none' && o.id !== 'custom');
 
-// Smooth release curve (S-curve)
-function buildSmoothDecayCurve(start: number, end = 1e-4, points = 256): Float32Array {
-  const n = Math.max(2, points | 0);
-  const floor = Math.max(end, 1e-6);
-  const s0 = Math.max(start || floor, floor);
-  const curve = new Float32Array(n);
-  for (let i = 0; i < n; i++) {
-    const t = i / (n - 1);
-    const smooth = t * t * (3 - 2 * t);
-    const y = floor + (s0 - floor) * (1 - smooth);
-    curve[i] = y;
-  }
-  return curve;
-}
-
-// Voice (Web Audio)
-class Voice {
-  ctx: AudioContext;
-  osc: OscillatorNode;
-  gain: GainNode;
-  releaseCurve: Float32Array;
-
-  constructor(ctx: AudioContext, waveform: OscillatorType, freq: number, gain: number, attack: number) {
-    this.ctx = ctx;
-    this.osc = ctx.createOscillator();
-    this.osc.type = waveform;
-    this.osc.frequency.value = freq;
-
-    this.gain = ctx.createGain();
-    this.gain.gain.value = 0;
-
-    const now = ctx.currentTime;
-    const atk = Math.max(0.005, attack);
-    this.gain.gain.cancelScheduledValues(now);
-    this.gain.gain.setValueAtTime(0, now);
-    this.gain.gain.linearRampToValueAtTime(gain, now + atk);
-
-    this.osc.connect(this.gain).connect(ctx.destination);
-    this.osc.start();
-
-    this.releaseCurve = buildSmoothDecayCurve(gain);
-  }
-
-  setFrequency(f: number) { this.osc.frequency.value = f; }
-  setGain(g: number) {
-    const now = this.ctx.currentTime;
-    this.gain.gain.cancelScheduledValues(now);
-    this.gain.gain.setValueAtTime(this.gain.gain.value, now);
-    this.gain.gain.linearRampToValueAtTime(g, now + 0.01);
-    this.releaseCurve = buildSmoothDecayCurve(g);
-  }
-  setWaveform(w: OscillatorType) { this.osc.type = w; }
-
-  stop(release: number, onEnded?: () => void) {
-    const now = this.ctx.currentTime;
-    const rel = Math.max(0.02, release);
-    const curve = this.releaseCurve;
-    this.gain.gain.cancelScheduledValues(now);
-    this.gain.gain.setValueAtTime(this.gain.gain.value, now);
-    this.gain.gain.setValueCurveAtTime(curve, now, rel);
-    this.osc.stop(now + rel + 0.005);
-    this.osc.onended = () => onEnded?.();
-  }
+// Closest built-in for Custom degrees in the active division, e.g. "Uşşak tetrachord with a 1-koma higher second"
+function closestCesniLabel(steps: number[], edo: number): string | null {
+  const komas = steps.map(s => Math.round((s * STEPS) / edo));
+  const [best] = classifyCesni(komas, BUILTIN_CESNIS);
+  return best ? describeMatch(best) : null;
 }
 
 // Marker builders for any [start..end] absolute range
-function buildTetDataForRange(startStep: number, endStep: number, transpose12: number) {
+function buildTetDataForRange(startStep: number, endStep: number, transpose12: number, edo = STEPS) {
   const span = endStep - startStep + 1;
   const cells: (string | null)[] = Array.from({ length: span }, () => null);
   const deltaMap = new Map<number, number>(); // abs step -> cents delta
-  for (let s = 0; s <= 12; s++) {
+  const sLo = Math.floor((startStep * 12) / edo) - 1;
+  const sHi = Math.ceil((endStep * 12) / edo) + 1;
+  for (let s = sLo; s <= sHi; s++) {
     const idealCents = s * 100;
-    const absolute = Math.round((STEPS * s) / 12);
+    const absolute = Math.round((edo * s) / 12);
     if (absolute < startStep || absolute > endStep) continue;
     const midi = D4_MIDI + transpose12 + s;
     const name = NOTE_NAMES[(midi % 12 + 12) % 12];
     cells[absolute - startStep] = name;
-    const snappedCents = absolute * CENTS_PER_STEP;
+    const snappedCents = absolute * centsPerStepFor(edo);
     deltaMap.set(absolute, snappedCents - idealCents);
   }
   return { cells, deltaMap };
 }
-function buildJustCellsForRange(startStep: number, endStep: number) {
-  const intervals: { name: string; ratio: number }[] = [
-    { name: '1/1', ratio: 1/1 }, { name: '16/15', ratio: 16/15 }, { name: '9/8', ratio: 9/8 },
-    { name: '6/5', ratio: 6/5 }, { name: '5/4', ratio: 5/4 }, { name: '4/3', ratio: 4/3 },
-    { name: '45/32', ratio: 45/32 }, { name: '3/2', ratio: 3/2 }, { name: '8/5', ratio: 8/5 },
-    { name: '5/3', ratio: 5/3 }, { name: '15/8', ratio: 15/8 }, { name: '2/1', ratio: 2/1 },
-  ];
+
+// Perde markers: each perde (counted from Yegâh = D4) snaps to its nearest step
+function buildPerdeDataForRange(startStep: number, endStep: number, transpose12: number, edo = STEPS) {
   const span = endStep - startStep + 1;
-  const cells: (string | null)[] = Array.from({ length: span }, () => null);
-  for (const it of intervals) {
-    const abs = Math.round(cents(it.ratio) / CENTS_PER_STEP);
-    if (abs >= startStep && abs <= endStep) cells[abs - startStep] = it.name;
+  const cells: (Perde | null)[] = Array.from({ length: span }, () => null);
+  const deltaMap = new Map<number, number>(); // abs step -> cents delta
+  const kLo = Math.floor(komaFromYegah(startStep - 0.5, transpose12, edo));
+  const kHi = Math.ceil(komaFromYegah(endStep + 0.5, transpose12, edo));
+  for (let k = kLo; k <= kHi; k++) {
+    const perde = perdeAt(k);
+    if (!perde) continue;
+    const absolute = stepForKoma(k, transpose12, edo);
+    if (absolute < startStep || absolute > endStep || cells[absolute - startStep]) continue;
+    cells[absolute - startStep] = perde;
+    deltaMap.set(absolute, (komaFromYegah(absolute, transpose12, edo) - k) * centsPerStepFor(KOMA_EDO));
   }
-  return cells;
+  return { cells, deltaMap };
+}
+
+// Perde name (or bare AEU spelling) of the koma nearest to a step, for readouts
+function perdeLabelForStep(step: number, transpose12: number, edo = STEPS) {
+  const k = Math.round(komaFromYegah(step, transpose12, edo));
+  const perde = perdeAt(k);
+  if (perde) return `${perde.name} · ${perde.spelling.letter}${fmtAccidental(perde.spelling.accidental)}`;
+  const sp = spellKoma(k);
+  return sp ? `${sp.letter}${fmtAccidental(sp.accidental)}` : null;
 }
 
 // --- Reusable keyboard surface ---
@@ -221,15 +200,19 @@ type KomaKeyboardProps = {
   title?: string;
   startStep: number;
   endStep: number; // inclusive
+  centsPerStep: number;
   cesniAbsSteps: Set<number>;
   showTet: boolean;
   showJust: boolean;
+  showPerde: boolean;
   tetData: { cells: (string | null)[]; deltaMap: Map<number, number> };
-  justCells: (string | null)[];
+  justCells: JustMarker[][];   // every ratio snapping to each key
+  perdeData: { cells: (Perde | null)[]; deltaMap: Map<number, number> };
   onPointerDown: (step: number) => (e: React.PointerEvent) => void;
   onPointerEnter: (step: number) => (e: React.PointerEvent) => void;
   onPointerUp: (e: React.PointerEvent) => void;
   onPointerCancel: (e: React.PointerEvent) => void;
+  onGesture?: (pointerId: number, pos: number, dy: number) => void;  // glide mode: continuous position + vertical offset
   glowCounts: React.MutableRefObject<Map<number, number>>;
   fadeInfo: React.MutableRefObject<Map<number, { startedAt: number; durationMs: number }>>;
   tetRowRef?: React.MutableRefObject<HTMLDivElement | null> | React.RefObject<HTMLDivElement>;
@@ -238,22 +221,28 @@ type KomaKeyboardProps = {
   onTetPointerDown?: (e: React.PointerEvent<HTMLDivElement>) => void;
   onTetPointerMove?: (e: React.PointerEvent<HTMLDivElement>) => void;
   onTetPointerEnd?: (e: React.PointerEvent<HTMLDivElement>) => void;
+  durakStep?: number | null;
+  gucluStep?: number | null;
+  keyLegends?: Map<number, string[]>;   // abs step -> computer keys bound to it
 };
 
 function KomaKeyboard(props: KomaKeyboardProps) {
   const {
-    title, startStep, endStep, cesniAbsSteps, showTet, showJust,
-    tetData, justCells, onPointerDown, onPointerEnter, onPointerUp, onPointerCancel,
+    title, startStep, endStep, centsPerStep, cesniAbsSteps, showTet, showJust, showPerde,
+    tetData, justCells, perdeData, onPointerDown, onPointerEnter, onPointerUp, onPointerCancel, onGesture,
     glowCounts, fadeInfo, tetRowRef, isTouch, tetTip, onTetPointerDown, onTetPointerMove, onTetPointerEnd,
+    durakStep, gucluStep, keyLegends,
   } = props;
 
   const span = endStep - startStep + 1;
+  const gridRef = React.useRef<HTMLDivElement | null>(null);
+  const gestureOrigins = React.useRef(new Map<number, { y: number; halfHeight: number }>());
   const keys = React.useMemo(
     () => Array.from({ length: span }, (_, i) => {
       const s = startStep + i;
-      return { absStep: s, cents: s * CENTS_PER_STEP };
+      return { absStep: s, cents: s * centsPerStep };
     }),
-    [startStep, endStep]
+    [startStep, endStep, centsPerStep]
   );
 
   const tetStepSet = React.useMemo(() => new Set<number>(
@@ -261,7 +250,7 @@ function KomaKeyboard(props: KomaKeyboardProps) {
   ), [tetData, startStep]);
 
   const justStepSet = React.useMemo(() => new Set<number>(
-    justCells.map((lbl, i) => (lbl ? (startStep + i) : -1)).filter(i => i >= 0)
+    justCells.map((markers, i) => (markers.length ? (startStep + i) : -1)).filter(i => i >= 0)
   ), [justCells, startStep]);
 
   //Calculating relative distance in koma for key labels
@@ -311,8 +300,24 @@ function KomaKeyboard(props: KomaKeyboardProps) {
       {title && <div className="text-sm text-neutral-300 font-semibold">{title}</div>}
 
       <div
+        ref={gridRef}
         className="grid gap-1 p-3 rounded-xl bg-neutral-950/40 w-full overflow-x-hidden"
         style={{ touchAction: 'none', gridTemplateColumns: `repeat(${span}, minmax(0, 1fr))` }}
+        onPointerDown={onGesture && ((e) => {
+          const keyHeight = gridRef.current?.firstElementChild?.getBoundingClientRect().height ?? 0;
+          gestureOrigins.current.set(e.pointerId, { y: e.clientY, halfHeight: Math.max(1, keyHeight / 2) });
+        })}
+        onPointerMove={onGesture && ((e) => {
+          const origin = gestureOrigins.current.get(e.pointerId);
+          const first = gridRef.current?.firstElementChild?.getBoundingClientRect();
+          const last = gridRef.current?.lastElementChild?.getBoundingClientRect();
+          if (!origin || !first || !last) return;
+          const pos = stepAtX(e.clientX, first.left + first.width / 2, last.left + last.width / 2, startStep, span);
+          const dy = Math.max(-1, Math.min(1, (origin.y - e.clientY) / origin.halfHeight));
+          onGesture(e.pointerId, pos, dy);
+        })}
+        onPointerUp={onGesture && ((e) => { gestureOrigins.current.delete(e.pointerId); })}
+        onPointerCancel={onGesture && ((e) => { gestureOrigins.current.delete(e.pointerId); })}
       >
         {keys.map((k) => {
           const count = glowCounts.current.get(k.absStep) || 0;
@@ -355,9 +360,20 @@ function KomaKeyboard(props: KomaKeyboardProps) {
                      transitionProperty: 'opacity, box-shadow, outline-color',
                      transitionDuration: `${durationMs}ms`,
                    }} />
+              {keyLegends?.has(k.absStep) && (
+                <div className="absolute inset-x-0 top-2 text-center text-[9px] sm:text-[10px] font-mono text-neutral-600 pointer-events-none">
+                  {keyLegends.get(k.absStep)?.join(' ')}
+                </div>
+              )}
               <div className="absolute left-1/2 -translate-x-1/2 top-[25%] text-xs sm:text-sm md:text-base font-extrabold leading-none drop-shadow-[0_1px_1px_rgba(0,0,0,0.3)]">
               {deltaFromPrevCesni.get(k.absStep) ?? 0}
               </div>
+              {(k.absStep === durakStep || k.absStep === gucluStep) && (
+                <div className="absolute left-1/2 -translate-x-1/2 bottom-2 px-1 rounded text-[9px] sm:text-[10px] font-bold bg-neutral-900 text-neutral-100 pointer-events-none"
+                     title={k.absStep === durakStep ? 'Durak (tonic)' : 'Güçlü (dominant)'}>
+                  {k.absStep === durakStep ? 'D' : 'G'}
+                </div>
+              )}
             </div>
           );
         })}
@@ -368,12 +384,14 @@ function KomaKeyboard(props: KomaKeyboardProps) {
         {showJust && (
           <div className="grid gap-1" style={{ gridTemplateColumns: `repeat(${span}, minmax(0, 1fr))` }}>
             {Array.from({ length: span }, (_, i) => (
-              <div key={`just-${startStep + i}`} className="h-8 flex items-center justify-center">
-                {justCells[i] ? (
-                  <div className="px-1.5 py-0.5 rounded-md text-[10px] sm:text-xs font-semibold text-white" style={{ background: '#E20074' }}>
-                    {justCells[i]}
+              <div key={`just-${startStep + i}`} className="min-h-8 flex flex-col items-center justify-center gap-0.5">
+                {justCells[i].map(m => (
+                  <div key={m.label} className="px-1.5 py-0.5 rounded-md text-[10px] sm:text-xs font-semibold text-white text-center leading-tight" style={{ background: '#E20074' }}
+                       title={`${m.label} • ${fmtCents(m.cents)} • key ${fmtSigned1(m.deviation)}${m.note ? ` • ${m.note}` : ''}`}>
+                    {m.label}
+                    <div className="text-[9px] font-normal opacity-80">{fmtRemapError(m.deviation)}</div>
                   </div>
-                ) : null}
+                ))}
               </div>
             ))}
           </div>
@@ -412,18 +430,84 @@ function KomaKeyboard(props: KomaKeyboardProps) {
             )}
           </div>
         )}
+
+        {showPerde && (
+          <div className="grid gap-1" style={{ gridTemplateColumns: `repeat(${span}, minmax(0, 1fr))` }}>
+            {perdeData.cells.map((perde, i) => (
+              <div key={`perde-${startStep + i}`} className="h-28 flex flex-col items-center justify-start gap-1">
+                {perde ? (
+                  <>
+                    <div
+                      className="px-0.5 py-1 rounded-md text-[10px] sm:text-xs font-semibold whitespace-nowrap"
+                      style={{ background: 'rgba(56,189,248,0.9)', color: '#082f49', writingMode: 'vertical-rl', transform: 'rotate(180deg)' }}
+                      title={`${perde.name} • ${describeSpelling(perde.spelling)} • ${fmtSigned1(perdeData.deltaMap.get(startStep + i) ?? 0)}`}
+                    >
+                      {perde.name}
+                    </div>
+                    <div className="text-[10px] sm:text-xs font-semibold text-sky-300 leading-none">
+                      {perde.spelling.letter}<sup>{fmtAccidental(perde.spelling.accidental)}</sup>
+                    </div>
+                  </>
+                ) : null}
+              </div>
+            ))}
+          </div>
+        )}
       </div>
     </div>
   );
 }
 
 export default function FiftyThreeTETKeyboard() {
+  // User çeşni library (localStorage), listed after the built-ins
+  const [userCesnis, setUserCesnis] = useState<UserCesni[]>(() => loadLibrary(MAX_STEP));
+  useEffect(() => { saveLibrary(userCesnis); }, [userCesnis]);
+  const cesniChoices = useMemo<CesniChoice[]>(
+    () => [...CESNI_OPTIONS, ...userCesnis.map(u => ({ id: u.id, label: u.name, steps: u.steps }))],
+    [userCesnis]
+  );
+  const findCesni = (id: string) => cesniChoices.find(o => o.id === id);
+
+  // Initial state from the URL hash; invalid entries fall back to defaults with a warning
+  const [urlInit] = useState(() => decodeUrlState(window.location.hash, {
+    isCesniId: (id) => cesniChoices.some(o => o.id === id),
+    isMakamId: (id) => findMakam(id) !== null,
+    parseSteps: (str, edo) => parseStepList(str, fifthStepsFor(edo), edo),
+    edoRange: [MIN_EDO, MAX_EDO],
+    defaultEdo: STEPS,
+  }));
+  const [urlWarnings, setUrlWarnings] = useState<string[]>(urlInit.warnings);
+
   // Synth params
-  const [waveform, setWaveform] = useState<OscillatorType>('sine');
-  const [gain, setGain] = useState(0.15);
-  const [attack, setAttack] = useState(0.02);
-  const [release, setRelease] = useState(0.12);
-  const [sustain, setSustain] = useState(false);
+  const [instrument, setInstrument] = useState<InstrumentId>(urlInit.state.instrument ?? 'sine');
+  const [sampleSet, setSampleSet] = useState<SampleSet | null>(null);
+  const [sampleMsg, setSampleMsg] = useState<string | null>(null);
+  const [gain, setGain] = useState(urlInit.state.gain ?? 0.15);
+  const [attack, setAttack] = useState(urlInit.state.attack ?? 0.02);
+  const [decay, setDecay] = useState(urlInit.state.decay ?? 0.15);
+  const [sustainLevel, setSustainLevel] = useState(urlInit.state.sustainLevel ?? 1);
+  const [release, setRelease] = useState(urlInit.state.release ?? 0.12);
+  const [sustain, setSustain] = useState(urlInit.state.sustain ?? false);
+  const [filterOn, setFilterOn] = useState(false);
+  const [filterCutoff, setFilterCutoff] = useState(800);
+  const [filterAmount, setFilterAmount] = useState(3);
+  const [filterQ, setFilterQ] = useState(1);
+  const adsr = useMemo<Adsr>(() => ({
+    attack, decay, sustain: sustainLevel,
+    filter: filterOn ? { cutoff: filterCutoff, amount: filterAmount, q: filterQ } : null,
+  }), [attack, decay, sustainLevel, filterOn, filterCutoff, filterAmount, filterQ]);
+
+  // Master bus (limiter, reverb, volume)
+  const [masterVolume, setMasterVolume] = useState(DEFAULT_BUS.volume);
+  const [reverbMix, setReverbMix] = useState(DEFAULT_BUS.reverb);
+  const [reverbSeconds, setReverbSeconds] = useState(DEFAULT_BUS.reverbSeconds);
+  const busSettings = useMemo<MasterBusSettings>(() => ({ volume: masterVolume, reverb: reverbMix, reverbSeconds }), [masterVolume, reverbMix, reverbSeconds]);
+
+  // Division of the octave (53 = koma); recipes are remapped from 53 when different
+  const [edo, setEdo] = useState<number>(urlInit.state.edo ?? STEPS);
+  const centsPerStep = centsPerStepFor(edo);
+  const maxStep = fifthStepsFor(edo);
+  const remapSteps = (komaSteps: number[]) => remapKomaSteps(komaSteps, edo).steps;
 
   // UI housekeeping
   const selectOpenRef = useRef(false);
@@ -431,60 +515,134 @@ export default function FiftyThreeTETKeyboard() {
   const [lastTestRun, setLastTestRun] = useState<number | null>(null);
 
   // Base pitch / markers
-  const [transpose12, setTranspose12] = useState<number>(0);
-  const [showTet, setShowTet] = useState(true);
-  const [showJust, setShowJust] = useState(true);
+  const [transpose12, setTranspose12] = useState<number>(urlInit.state.transpose12 ?? 0);
+  const [showTet, setShowTet] = useState(urlInit.state.showTet ?? true);
+  const [showJust, setShowJust] = useState(urlInit.state.showJust ?? true);
+  const [justSettings, setJustSettings] = useState<JustSettings>(DEFAULT_JUST);
+  const [surface, setSurface] = useState<'linear' | 'hex'>('linear');
+  const [hexSettings, setHexSettings] = useState<HexSettings>(() => ({ ...DEFAULT_HEX, cols: window.innerWidth < 640 ? 7 : DEFAULT_HEX.cols }));
+  const [showPerde, setShowPerde] = useState(urlInit.state.showPerde ?? true);
+
+  // Makam (sets both keyboards + transposition)
+  const [makamId, setMakamId] = useState<string>(urlInit.state.makamId ?? 'none');
+  const makam = useMemo(() => findMakam(makamId), [makamId]);
+  const durakStep = makam ? remapKomaStep(makam.durak, edo) : null;
+  const gucluStep = makam ? remapKomaStep(makam.guclu, edo) : null;
 
   // Çeşni — Keyboard 1
-  const [cesniId, setCesniId] = useState<string>('rast_penta');
-  const [customStepsStr, setCustomStepsStr] = useState<string>('');
-  const customParsed = useMemo(() => parseStepList(customStepsStr), [customStepsStr]);
+  const [cesniId, setCesniId] = useState<string>(urlInit.state.cesniId ?? 'rast_penta');
+  const [customStepsStr, setCustomStepsStr] = useState<string>(urlInit.state.customStepsStr ?? '');
+  const customParsed = useMemo(() => parseStepList(customStepsStr, maxStep, edo), [customStepsStr, maxStep, edo]);
+  const customClosest = useMemo(() => (customParsed.error ? null : closestCesniLabel(customParsed.steps, edo)), [customParsed, edo]);
+  const cesniRemap = useMemo(
+    () => remapKomaSteps(cesniChoices.find(o => o.id === cesniId)?.steps ?? [], edo),
+    [cesniId, cesniChoices, edo]
+  );
   const cesniSteps = useMemo(() => {
     if (cesniId === 'custom') return customParsed.error ? [] : customParsed.steps;
-    return CESNI_OPTIONS.find(o => o.id === cesniId)?.steps ?? [];
-  }, [cesniId, customParsed]);
+    return cesniRemap.steps;
+  }, [cesniId, customParsed, cesniRemap]);
   const cesniSet = useMemo(() => new Set<number>(cesniSteps), [cesniSteps]);
   const prevCesniIdRef = useRef<string>(cesniId);
 
-  // Dynamic kb1 range from lowest..highest highlighted (fallback 0..31)
-  const startStep1 = useMemo(() => (cesniSteps.length ? Math.min(...cesniSteps) : 0), [cesniSteps]);
-  const endStep1   = useMemo(() => (cesniSteps.length ? Math.max(...cesniSteps) : MAX_STEP), [cesniSteps]);
+  // Loaded SymbTr score; when followed, its range is split across both keyboards
+  const [score, setScore] = useState<SymbTrScore | null>(null);
+  const [scoreFollow, setScoreFollow] = useState(true);
+  const scoreView = useMemo(() => {
+    if (!scoreFollow || !score || score.minKoma === null || score.maxKoma === null) return null;
+    const lo = stepForKoma(score.minKoma, transpose12, edo);
+    const hi = Math.max(lo + 1, stepForKoma(score.maxKoma, transpose12, edo));
+    const mid = lo + Math.floor((hi - lo) / 2);
+    return { lo, mid, hi };
+  }, [scoreFollow, score, transpose12, edo]);
+
+  // Dynamic kb1 range from lowest..highest highlighted (fallback 0..fifth)
+  const startStep1 = useMemo(() => (scoreView ? scoreView.lo : cesniSteps.length ? Math.min(...cesniSteps) : 0), [scoreView, cesniSteps]);
+  const endStep1   = useMemo(() => (scoreView ? scoreView.mid : cesniSteps.length ? Math.max(...cesniSteps) : maxStep), [scoreView, cesniSteps, maxStep]);
   const spanKb1 = endStep1 - startStep1 + 1;
 
   // Çeşni — Keyboard 2 (relative)
-  const [cesni2Id, setCesni2Id] = useState<string>('rast_tetra'); // default to Rast tetrachord
-  const [custom2StepsStr, setCustom2StepsStr] = useState<string>('');
-  const custom2Parsed = useMemo(() => parseStepList(custom2StepsStr), [custom2StepsStr]);
+  const [cesni2Id, setCesni2Id] = useState<string>(urlInit.state.cesni2Id ?? 'rast_tetra'); // default to Rast tetrachord
+  const [custom2StepsStr, setCustom2StepsStr] = useState<string>(urlInit.state.custom2StepsStr ?? '');
+  const custom2Parsed = useMemo(() => parseStepList(custom2StepsStr, maxStep, edo), [custom2StepsStr, maxStep, edo]);
+  const custom2Closest = useMemo(() => (custom2Parsed.error ? null : closestCesniLabel(custom2Parsed.steps, edo)), [custom2Parsed, edo]);
+  const cesni2Remap = useMemo(
+    () => remapKomaSteps(cesniChoices.find(o => o.id === cesni2Id)?.steps ?? [], edo),
+    [cesni2Id, cesniChoices, edo]
+  );
   const cesni2RelSteps = useMemo(() => {
     if (cesni2Id === 'custom') return custom2Parsed.error ? [] : custom2Parsed.steps;
-    return CESNI_OPTIONS.find(o => o.id === cesni2Id)?.steps ?? [];
-  }, [cesni2Id, custom2Parsed]);
+    return cesni2Remap.steps;
+  }, [cesni2Id, custom2Parsed, cesni2Remap]);
   const prevCesni2IdRef = useRef<string>(cesni2Id);
 
   // kb2 starts at highest highlighted of kb1, ends minimally to include its own recipe
-  const highestStepKb1 = useMemo(() => (cesniSteps.length ? Math.max(...cesniSteps) : 31), [cesniSteps]);
+  const highestStepKb1 = useMemo(() => (cesniSteps.length ? Math.max(...cesniSteps) : maxStep), [cesniSteps, maxStep]);
   const startStep2 = highestStepKb1;
   const endStep2 = useMemo(() => {
     const maxRel = cesni2RelSteps.length ? Math.max(...cesni2RelSteps) : 0;
-    return Math.min(ABS_MAX_STEP, startStep2 + maxRel);
-  }, [cesni2RelSteps, startStep2]);
-  //Show koma keys up to 53 when 'none' cesni is selected
-  const renderStart2 = cesni2Id === 'none' ? endStep1 : startStep2;
-  const renderEnd2   = cesni2Id === 'none' ? 53 : endStep2;
+    return Math.min(edo, startStep2 + maxRel);
+  }, [cesni2RelSteps, startStep2, edo]);
+  //Show keys up to the octave when 'none' cesni is selected
+  const renderStart2 = scoreView ? scoreView.mid : cesni2Id === 'none' ? endStep1 : startStep2;
+  const renderEnd2   = scoreView ? scoreView.hi : cesni2Id === 'none' ? edo : endStep2;
   const cesni2AbsSet = useMemo(
     () => new Set<number>(cesni2RelSteps.map(s => startStep2 + s).filter(s => s >= startStep2 && s <= endStep2)),
     [cesni2RelSteps, startStep2, endStep2]
   );
 
+  // Dizi composer: an arbitrary stack of segments replaces the two keyboards when enabled
+  const [diziOn, setDiziOn] = useState(false);
+  const [diziStack, setDiziStack] = useState<DiziStack>(() => stackFromMakam(findMakam('rast') ?? { lower: 'rast_penta', upper: 'rast_tetra', join: 31 }));
+  const [diziDir, setDiziDir] = useState<DiziDirection>('ascending');
+  const diziSegments = segmentsFor(diziStack, diziDir);
+  const diziRows = useMemo(
+    () => buildDiziRows(diziSegments, id => cesniChoices.find(o => o.id === id)?.steps ?? null, edo),
+    [diziSegments, cesniChoices, edo]
+  );
+
   // Base, names, markers
   const baseFreq = useMemo(() => baseFreqFromSemitones(transpose12), [transpose12]);
   const baseName = useMemo(() => midiNameFromSemis(transpose12), [transpose12]);
 
-  const tetDataKb1 = useMemo(() => buildTetDataForRange(startStep1, endStep1, transpose12), [startStep1, endStep1, transpose12]);
-  const justCellsKb1 = useMemo(() => buildJustCellsForRange(startStep1, endStep1), [startStep1, endStep1]);
-
-  const tetDataKb2 = useMemo(() => buildTetDataForRange(renderStart2, renderEnd2, transpose12), [renderStart2, renderEnd2, transpose12]);
-  const justCellsKb2 = useMemo(() => buildJustCellsForRange(renderStart2, renderEnd2), [renderStart2, renderEnd2]);
+  const justRatioList = useMemo(() => justRatios(justSettings), [justSettings]);
+  const tetDataKb1 = useMemo(() => buildTetDataForRange(startStep1, endStep1, transpose12, edo), [startStep1, endStep1, transpose12, edo]);
+  const justCellsKb1 = useMemo(() => buildJustCellsForRange(startStep1, endStep1, justRatioList, edo), [startStep1, endStep1, justRatioList, edo]);
+  const perdeDataKb1 = useMemo(() => buildPerdeDataForRange(startStep1, endStep1, transpose12, edo), [startStep1, endStep1, transpose12, edo]);
+
+  const tetDataKb2 = useMemo(() => buildTetDataForRange(renderStart2, renderEnd2, transpose12, edo), [renderStart2, renderEnd2, transpose12, edo]);
+  const justCellsKb2 = useMemo(() => buildJustCellsForRange(renderStart2, renderEnd2, justRatioList, edo), [renderStart2, renderEnd2, justRatioList, edo]);
+  const perdeDataKb2 = useMemo(() => buildPerdeDataForRange(renderStart2, renderEnd2, transpose12, edo), [renderStart2, renderEnd2, transpose12, edo]);
+
+  const diziRowViews = useMemo(() => diziRows.map(r => ({
+    ...r,
+    stepSet: new Set<number>(r.steps),
+    tetData: buildTetDataForRange(r.start, r.end, transpose12, edo),
+    justCells: buildJustCellsForRange(r.start, r.end, justRatioList, edo),
+    perdeData: buildPerdeDataForRange(r.start, r.end, transpose12, edo),
+  })), [diziRows, transpose12, justRatioList, edo]);
+
+  // Hex grid: markers over its whole range; every çeşni on screen counts for membership
+  const hexMarkers = useMemo(() => {
+    if (surface !== 'hex') return { tetSteps: new Set<number>(), justSteps: new Set<number>() };
+    const steps = hexCells(hexSettings, edo).map(c => c.step);
+    const lo = Math.min(...steps);
+    const hi = Math.max(...steps);
+    const tet = showTet ? buildTetDataForRange(lo, hi, transpose12, edo).cells : [];
+    const just = showJust ? buildJustCellsForRange(lo, hi, justRatioList, edo) : [];
+    return {
+      tetSteps: new Set(tet.flatMap((label, i) => (label ? [lo + i] : []))),
+      justSteps: new Set(just.flatMap((markers, i) => (markers.length ? [lo + i] : []))),
+    };
+  }, [surface, hexSettings, edo, showTet, showJust, transpose12, justRatioList]);
+  const hexCesniSteps = useMemo(
+    () => new Set<number>(diziOn ? diziSteps(diziRows) : [...cesniSet, ...cesni2AbsSet]),
+    [diziOn, diziRows, cesniSet, cesni2AbsSet]
+  );
+  const hexLabel = (step: number) => {
+    const sp = spellKoma(Math.round(komaFromYegah(step, transpose12, edo)));
+    return sp ? `${sp.letter}${fmtAccidental(sp.accidental)}` : String(step);
+  };
 
   // Force re-render on ref map updates
   const [, setUiPulse] = useState(0);
@@ -496,13 +654,57 @@ export default function FiftyThreeTETKeyboard() {
     if (!audioRef.current) audioRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
     return audioRef.current;
   };
-  const freqForStepFromBase = (step: number, base: number) => base * Math.pow(2, step / STEPS);
+  const busRef = useRef<MasterBus | null>(null);
+  const getBus = () => {
+    if (!busRef.current) busRef.current = new MasterBus(getCtx(), busSettings);
+    return busRef.current;
+  };
+  useEffect(() => { busRef.current?.apply(busSettings); }, [busSettings]);
+
+  // ------- Tuning systems (A/B) -------
+  // Both sides play the same steps; a side other than the equal grid snaps each step to its own table
+  const [tuningA, setTuningA] = useState<TuningId>('equal');
+  const [tuningB, setTuningB] = useState<TuningId>('aeu24');
+  const [tuningSide, setTuningSide] = useState<'A' | 'B'>('A');
+  const [centsTableStr, setCentsTableStr] = useState('');
+  const centsTable = useMemo(() => parseCentsTable(centsTableStr), [centsTableStr]);
+  const tableA = useMemo(() => tuningTable(tuningA, centsTable.cents, transpose12), [tuningA, centsTable, transpose12]);
+  const tableB = useMemo(() => tuningTable(tuningB, centsTable.cents, transpose12), [tuningB, centsTable, transpose12]);
+  const activeTuning = tuningSide === 'A' ? tableA : tableB;
+  const freqForStepFromBase = (step: number, base: number) => base * Math.pow(2, degreeCents(step, edo, activeTuning) / 1200);
 
   // Active voices
-  const activeVoices = useRef(new Map<number, { voice: Voice; step: number }>());
+  const activeVoices = useRef(new Map<number, { voice: VoiceLike; step: number }>());
   const activePointers = useRef(new Map<number, number>());
-  const activeKeys = useRef(new Map<string, { voice: Voice; step: number }>());
-  const latchedVoices = useRef(new Map<number, Voice>());
+  const activeKeys = useRef(new Map<string, { voice: VoiceLike; step: number }>());
+  const latchedVoices = useRef(new Map<number, VoiceLike>());
+
+  // Glide mode: slide between keys continuously; vertical movement bends or adds vibrato
+  const [glideOn, setGlideOn] = useState(false);
+  const [portamento, setPortamento] = useState(0.06);
+  const [gestureMode, setGestureMode] = useState<GestureMode>('vibrato');
+  const [gestureRange, setGestureRange] = useState(3);
+  const [vibratoRate, setVibratoRate] = useState(5.5);
+  const gestureSettings: GestureSettings = { portamento, mode: gestureMode, rangeKoma: gestureRange, vibratoRate };
+  const gestures = useRef(new Map<number, Gesture>());
+  const gestureFrame = useRef<number | null>(null);
+  // Last frequency written to the recording per gesture pointer (vibrato frames are thinned against it)
+  const gestureLoggedHz = useRef(new Map<number, number>());
+
+  // MIDI output (replaces the built-in oscillators while enabled)
+  const midiOutAccessRef = useRef<MIDIAccess | null>(null);
+  const midiOutEngineRef = useRef<MidiOutEngine | null>(null);
+  const [midiOutputs, setMidiOutputs] = useState<MidiInputInfo[]>([]);
+  const [midiOutId, setMidiOutId] = useState<string>('');
+  const [midiOutMode, setMidiOutMode] = useState<MidiOutMode>('mpe');
+  const [bendRange, setBendRange] = useState<number>(2);
+  const [midiOutError, setMidiOutError] = useState<string | null>(null);
+
+  const makeVoice = (f: number, g: number): VoiceLike => {
+    const engine = midiOutEngineRef.current;
+    if (engine) return new MidiVoice(engine, f, Math.round(127 * Math.sqrt(Math.min(1, g / Math.max(gain, 1e-6)))));
+    return createVoice(getCtx(), instrument, f, g, adsr, sampleSet, getBus().input);
+  };
 
   // Visuals
   const glowCounts = useRef(new Map<number, number>());
@@ -512,6 +714,7 @@ export default function FiftyThreeTETKeyboard() {
   const maybeBeginFade = (step: number) => { const ms = visualReleaseMs(release); fadeInfo.current.set(step, { startedAt: performance.now(), durationMs: ms }); setTimeout(() => { fadeInfo.current.delete(step); tick(); }, ms + 10); };
   const [activeHz, setActiveHz] = useState<number | null>(null);
   const [activeStep, setActiveStep] = useState<number | null>(null);
+  const activePerde = activeStep !== null ? perdeLabelForStep(activeStep, transpose12, edo) : null;
 
   // 12-TET row tooltip (kb1 dynamic)
   const tetRowRef = useRef<HTMLDivElement | null>(null);
@@ -520,41 +723,53 @@ export default function FiftyThreeTETKeyboard() {
   // ------- Per-key pointer handlers -------
   const onPointerDown = (step: number) => (e: React.PointerEvent) => {
     (e.target as HTMLElement).setPointerCapture?.(e.pointerId);
+    if (trainerQ && !trainerResult) answerTrainer(checkStepAnswer(trainerQ, step, edo));
     if (sustain) { toggleLatched(step); return; }
     startForPointer(e.pointerId, step);
+    if (glideOn) gestures.current.set(e.pointerId, { pos: step, dy: 0, startedAt: performance.now() / 1000 });
   };
   const onPointerEnter = (step: number) => (e: React.PointerEvent) => {
-    if ((e.buttons & 1) === 1 && activePointers.current.has(e.pointerId)) {
+    // In glide mode the continuous position takes over from key-by-key retuning
+    if (!glideOn && (e.buttons & 1) === 1 && activePointers.current.has(e.pointerId)) {
       retuneForPointer(e.pointerId, step);
     }
   };
   const onPointerUp = (e: React.PointerEvent) => { if (!sustain) stopForPointer(e.pointerId); };
   const onPointerCancel = (e: React.PointerEvent) => { if (!sustain) stopForPointer(e.pointerId); };
 
+  // Performance recorder (events are logged while recordingRef is set)
+  const recordingRef = useRef<{ startedAt: number; events: PerfEvent[] } | null>(null);
+  const logEvent = (type: PerfEventType, voice: string, step: number, g = 0, freq = freqForStepFromBase(step, baseFreq)) => {
+    const rec = recordingRef.current;
+    if (!rec) return;
+    rec.events.push({ t: performance.now() - rec.startedAt, type, voice, step, freq, gain: g });
+  };
+
   // Start/stop helpers
-  const startVoice = (step: number) => {
-    const ctx = getCtx();
+  const startVoice = (step: number, g = gain, voiceId?: string) => {
     const f = freqForStepFromBase(step, baseFreq);
-    const v = new Voice(ctx, waveform, f, gain, attack);
+    const v = makeVoice(f, g);
     incGlow(step);
     setActiveHz(f); setActiveStep(step);
+    if (voiceId) logEvent('on', voiceId, step, g);
     return v;
   };
-  const startForKey = (key: string, step: number) => {
-    const v = startVoice(step);
+  const startForKey = (key: string, step: number, g = gain) => {
+    const v = startVoice(step, g, `key:${key}`);
     activeKeys.current.set(key, { voice: v, step });
   };
   const stopForKey = (key: string) => {
     const ent = activeKeys.current.get(key);
     if (!ent) return;
     const { voice, step } = ent;
+    logEvent('off', `key:${key}`, step);
     maybeBeginFade(step);
     voice.stop(release, () => decGlow(step));
     activeKeys.current.delete(key);
   };
 
   const startForPointer = (pointerId: number, step: number) => {
-    const v = startVoice(step);
+    const v = startVoice(step, gain, `ptr:${pointerId}`);
     activePointers.current.set(pointerId, step);
     activeVoices.current.set(pointerId, { voice: v, step });
   };
@@ -566,41 +781,88 @@ export default function FiftyThreeTETKeyboard() {
     voice.setFrequency(f);
     incGlow(step);
     setActiveHz(f); setActiveStep(step);
+    logEvent('retune', `ptr:${pointerId}`, step);
     activeVoices.current.set(pointerId, { voice, step });
   };
   const stopForPointer = (pointerId: number) => {
     const ent = activeVoices.current.get(pointerId);
     if (!ent) return;
     const { voice, step } = ent;
+    logEvent('off', `ptr:${pointerId}`, step);
     maybeBeginFade(step);
     voice.stop(release, () => decGlow(step));
     activeVoices.current.delete(pointerId);
     activePointers.current.delete(pointerId);
+    gestures.current.delete(pointerId);
+    gestureLoggedHz.current.delete(pointerId);
+  };
+
+  // ------- Glide & vibrato gestures -------
+  // Each held pointer carries its continuous position; vibrato runs on animation frames
+  const applyGesture = (pointerId: number, t: number) => {
+    const ent = activeVoices.current.get(pointerId);
+    const g = gestures.current.get(pointerId);
+    if (!ent || !g) return;
+    const f = freqForStepFromBase(g.pos + gestureOffset(g, gestureSettings, edo, t), baseFreq);
+    ent.voice.setFrequency(f, gestureSettings.portamento);
+    const step = Math.round(g.pos);
+    if (step !== ent.step) {
+      incGlow(step); decGlow(ent.step);
+      setActiveHz(f); setActiveStep(step);
+      activeVoices.current.set(pointerId, { voice: ent.voice, step });
+      activePointers.current.set(pointerId, step);
+    }
+    const loggedHz = gestureLoggedHz.current.get(pointerId) ?? freqForStepFromBase(ent.step, baseFreq);
+    if (step !== ent.step || Math.abs(1200 * Math.log2(f / loggedHz)) >= RETUNE_LOG_CENTS) {
+      gestureLoggedHz.current.set(pointerId, f);
+      logEvent('retune', `ptr:${pointerId}`, step, 0, f);
+    }
+  };
+  const gestureLoop = useRef<() => void>(() => {});
+  gestureLoop.current = () => {
+    const t = performance.now() / 1000;
+    gestures.current.forEach((_, id) => applyGesture(id, t));
+    gestureFrame.current = gestures.current.size && gestureSettings.mode === 'vibrato'
+      ? requestAnimationFrame(() => gestureLoop.current())
+      : null;
+  };
+  const onGesture = (pointerId: number, pos: number, dy: number) => {
+    const g = gestures.current.get(pointerId);
+    if (!g) return;
+    gestures.current.set(pointerId, { ...g, pos, dy });
+    if (gestureSettings.mode === 'vibrato' && dy !== 0) {
+      if (gestureFrame.current === null) gestureLoop.current();
+    } else {
+      applyGesture(pointerId, performance.now() / 1000);
+    }
   };
 
-  const toggleLatched = (step: number) => {
+  const toggleLatched = (step: number, g = gain) => {
     const v = latchedVoices.current.get(step);
     if (v) {
+      logEvent('off', `latch:${step}`, step);
       maybeBeginFade(step);
       v.stop(release, () => decGlow(step));
       latchedVoices.current.delete(step);
     } else {
-      const ctx = getCtx();
       const f = freqForStepFromBase(step, baseFreq);
-      const newV = new Voice(ctx, waveform, f, gain, attack);
+      const newV = makeVoice(f, g);
       latchedVoices.current.set(step, newV);
       incGlow(step); setActiveHz(f); setActiveStep(step);
+      logEvent('on', `latch:${step}`, step, g);
     }
     tick();
   };
 
   const allOff = () => {
-    activeVoices.current.forEach(({ voice, step }) => { maybeBeginFade(step); voice.stop(release, () => decGlow(step)); });
+    activeVoices.current.forEach(({ voice, step }, id) => { logEvent('off', `ptr:${id}`, step); maybeBeginFade(step); voice.stop(release, () => decGlow(step)); });
     activeVoices.current.clear();
     activePointers.current.clear();
-    activeKeys.current.forEach(({ voice, step }) => { maybeBeginFade(step); voice.stop(release, () => decGlow(step)); });
+    gestures.current.clear();
+    gestureLoggedHz.current.clear();
+    activeKeys.current.forEach(({ voice, step }, key) => { logEvent('off', `key:${key}`, step); maybeBeginFade(step); voice.stop(release, () => decGlow(step)); });
     activeKeys.current.clear();
-    latchedVoices.current.forEach((voice, step) => { maybeBeginFade(step); voice.stop(release, () => decGlow(step)); });
+    latchedVoices.current.forEach((voice, step) => { logEvent('off', `latch:${step}`, step); maybeBeginFade(step); voice.stop(release, () => decGlow(step)); });
     latchedVoices.current.clear();
     setActiveHz(null); setActiveStep(null); tick();
   };
@@ -614,66 +876,263 @@ export default function FiftyThreeTETKeyboard() {
     } catch { setIsTouch(false); }
   }, []);
   useEffect(() => { activeVoices.current.forEach(({ voice }) => voice.setGain(gain)); latchedVoices.current.forEach(v => v.setGain(gain)); }, [gain]);
-  useEffect(() => { activeVoices.current.forEach(({ voice }) => voice.setWaveform(waveform)); latchedVoices.current.forEach(v => v.setWaveform(waveform)); }, [waveform]);
+  // Oscillator shapes can change on held notes; other instruments apply from the next note
+  useEffect(() => {
+    if (!isOscillatorType(instrument)) return;
+    activeVoices.current.forEach(({ voice }) => voice.setWaveform(instrument));
+    latchedVoices.current.forEach(v => v.setWaveform(instrument));
+  }, [instrument]);
   useEffect(() => {
     activeVoices.current.forEach(({ voice, step }) => {
-      const f = freqForStepFromBase(step, baseFreq);
+      const f = baseFreq * Math.pow(2, degreeCents(step, edo, activeTuning) / 1200);
       voice.setFrequency(f); setActiveHz(f); setActiveStep(step);
     });
-  }, [transpose12, baseFreq]);
+  }, [transpose12, baseFreq, edo, activeTuning]);
+
+  // Hotkey and latched voices too, so an A/B switch is heard on a held chord
+  const retuneHeld = (table: TuningTable) => {
+    const f = (step: number) => baseFreq * Math.pow(2, degreeCents(step, edo, table) / 1200);
+    activeVoices.current.forEach(({ voice, step }) => voice.setFrequency(f(step)));
+    activeKeys.current.forEach(({ voice, step }) => voice.setFrequency(f(step)));
+    latchedVoices.current.forEach((voice, step) => voice.setFrequency(f(step)));
+  };
+  const switchTuningSide = (side: 'A' | 'B') => {
+    setTuningSide(side);
+    retuneHeld(side === 'A' ? tableA : tableB);
+  };
+  const chooseTuning = (side: 'A' | 'B', id: TuningId) => {
+    if (side === 'A') setTuningA(id); else setTuningB(id);
+    if (side === tuningSide) retuneHeld(tuningTable(id, centsTable.cents, transpose12));
+  };
+  const changeCentsTable = (str: string) => {
+    setCentsTableStr(str);
+    if ((tuningSide === 'A' ? tuningA : tuningB) === 'custom') retuneHeld(tuningTable('custom', parseCentsTable(str).cents));
+  };
+  const comparedTunings = useMemo(
+    () => TUNING_SYSTEMS
+      .filter(t => t.id !== 'custom' || centsTable.cents.length)
+      .map(t => ({ ...t, table: tuningTable(t.id, centsTable.cents, transpose12) })),
+    [centsTable, transpose12]
+  );
+  const tuningRows = useMemo(() => {
+    const steps = diziOn ? diziSteps(diziRows) : Array.from(new Set([...cesniSteps, ...cesni2AbsSet])).sort((a, b) => a - b);
+    return steps.map(step => ({ step, cents: comparedTunings.map(t => degreeCents(step, edo, t.table)) }));
+  }, [diziOn, diziRows, cesniSteps, cesni2AbsSet, comparedTunings, edo]);
+
+  // ------- Drone (dem) -------
+  // Held apart from the played voices, so All Off and Sustain leave it alone
+  const [droneOn, setDroneOn] = useState(false);
+  const [droneSource, setDroneSource] = useState<'durak' | 'guclu' | 'koma'>('durak');
+  const [droneKoma, setDroneKoma] = useState(0);
+  const [droneInstrument, setDroneInstrument] = useState<InstrumentId>('sawtooth');
+  const [droneLevel, setDroneLevel] = useState(0.08);
+  const [droneOctave, setDroneOctave] = useState(-1);
+  const droneVoice = useRef<VoiceLike | null>(null);
+  const droneStep = droneSource === 'koma' ? remapKomaStep(droneKoma, edo)
+    : droneSource === 'guclu' ? (cesniSteps.length ? Math.max(...cesniSteps) : gucluStep ?? remapKomaStep(31, edo))
+    : durakStep ?? 0;
+  const droneFreq = baseFreq * Math.pow(2, degreeCents(droneStep, edo, activeTuning) / 1200 + droneOctave);
+  const dronePerde = perdeAt(Math.round(komaFromYegah(droneStep, transpose12, edo)) + STEPS * droneOctave);
+
+  const startDrone = (inst: InstrumentId = droneInstrument) => {
+    droneVoice.current?.stop(DRONE_ADSR.attack);
+    droneVoice.current = createVoice(getCtx(), inst, droneFreq, droneLevel, DRONE_ADSR, sampleSet, getBus().input);
+    setDroneOn(true);
+  };
+  const stopDrone = () => {
+    droneVoice.current?.stop(DRONE_ADSR.attack);
+    droneVoice.current = null;
+    setDroneOn(false);
+  };
+  // Retunes in place (no restart) when the çeşni, transposition or octave moves it
+  useEffect(() => { droneVoice.current?.setFrequency(droneFreq); }, [droneFreq]);
+  useEffect(() => { droneVoice.current?.setGain(droneLevel); }, [droneLevel]);
+
+  // ------- Interval trainer -------
+  const [trainerLevel, setTrainerLevel] = useState<TrainerLevel>('cesni');
+  const [trainerTogether, setTrainerTogether] = useState(false);
+  const [trainerQ, setTrainerQ] = useState<TrainerQuestion | null>(null);
+  const [trainerResult, setTrainerResult] = useState<TrainerResult | null>(null);
+  const [trainerStats, setTrainerStats] = useState<TrainerStats>(() => loadTrainerStats());
+  const [trainerMsg, setTrainerMsg] = useState<string | null>(null);
+  const trainerDegreeSets = useMemo(
+    () => (diziOn ? diziRows.map(r => r.steps) : [cesniSteps, Array.from(cesni2AbsSet).sort((a, b) => a - b)]),
+    [diziOn, diziRows, cesniSteps, cesni2AbsSet]
+  );
+  const trainerAnswerTypes = useMemo(() => answerTypesFor(trainerLevel, trainerDegreeSets, edo), [trainerLevel, trainerDegreeSets, edo]);
+
+  // Short tones outside the voice maps, so they never latch or get recorded; gapMs 0 sounds them together
+  const playTones = (steps: number[], gapMs: number, noteMs: number) => {
+    steps.forEach((step, i) => window.setTimeout(() => {
+      const v = makeVoice(freqForStepFromBase(step, baseFreq), gain);
+      window.setTimeout(() => v.stop(release), noteMs);
+    }, i * gapMs));
+  };
+  const playTrainerTones = (q: TrainerQuestion) => playTones([q.low, q.high], trainerTogether ? 0 : 850, 700);
+  const newTrainerQuestion = () => {
+    const q = makeQuestion(trainerLevel, trainerDegreeSets, edo);
+    if (!q) { setTrainerMsg('Select a çeşni with at least two degrees first.'); return; }
+    setTrainerMsg(null);
+    setTrainerQ(q);
+    setTrainerResult(null);
+    playTrainerTones(q);
+  };
+  const answerTrainer = (r: TrainerResult) => {
+    if (!trainerQ || trainerResult) return;
+    setTrainerResult(r);
+    const next = recordResult(trainerStats, trainerQ, r);
+    setTrainerStats(next);
+    saveTrainerStats(next);
+  };
+  const resetTrainerStats = () => { setTrainerStats({}); saveTrainerStats({}); };
+
+  // ------- Computer-keyboard layout -------
+  const [keyLayout, setKeyLayout] = useState<KeyLayout>(() => loadLayoutStore().active);
+  const [browserKeyMap, setBrowserKeyMap] = useState<Record<string, string>>({});
+  const [octaveShift, setOctaveShift] = useState(0);
+  useEffect(() => { readBrowserLayout().then(setBrowserKeyMap); }, []);
+
+  // Degree rows for layout bindings: Keyboard 1/2, or one row per composer segment (absolute steps)
+  const keyDegreeRows = useMemo(() => (diziOn
+    ? diziRows.map(r => r.steps)
+    : [cesniSteps, cesni2RelSteps.map(rel => startStep2 + rel)]), [diziOn, diziRows, cesniSteps, cesni2RelSteps, startStep2]);
+
+  // Legends drawn on the keys they currently play
+  const keyLegendsByStep = useMemo(() => {
+    const m = new Map<number, string[]>();
+    for (const [code, a] of Object.entries(keyLayout.bindings)) {
+      const step = stepForAction(a, keyDegreeRows, octaveShift, edo);
+      if (step !== null) m.set(step, [...(m.get(step) ?? []), keyLegend(code, keyLayout, browserKeyMap)]);
+    }
+    return m;
+  }, [keyLayout, keyDegreeRows, octaveShift, edo, browserKeyMap]);
 
-  // Keyboard handlers: allow playing even if inputs/selects are focused
+  // Keyboard handlers: keep playing while sliders/buttons are focused, but leave typing alone
   useEffect(() => {
     const isTextEntry = (el: EventTarget | null) => {
       if (!(el instanceof HTMLElement)) return false;
+      if (el instanceof HTMLInputElement && NON_TEXT_INPUT_TYPES.has(el.type)) return false;
       return !!el.closest('input, textarea, [contenteditable="true"]');
     };
 
-    const orderKb1 = ['a','s','d','f','g'];
-    const orderKb2 = ['h','j','k','l',';'];
-    const playableKeys = new Set([...orderKb1, ...orderKb2]);
-
     const down = (e: KeyboardEvent) => {
-      const k = e.key.toLowerCase();
-
-      // If a text input / textarea or select is active, only intercept playable keys
-      const focusedElsewhere = isTextEntry(e.target) || selectOpenRef.current;
-      if (focusedElsewhere && !playableKeys.has(k)) return;
-      if (e.repeat) return;
-
-      let step: number | null = null;
-
-      const s1 = resolveStepForKeyWithOrder(k, cesniSteps, orderKb1);
-      if (s1 !== null) step = s1;
-
-      if (step === null) {
-        const rel2 = resolveStepForKeyWithOrder(k, cesni2RelSteps, orderKb2);
-        if (rel2 !== null) step = startStep2 + rel2;
+      // Text fields and open selects own every key, so bound letters can be typed there
+      if (isTextEntry(e.target) || selectOpenRef.current) return;
+      const action = keyLayout.bindings[e.code];
+      if (e.repeat || !action) return;
+
+      if (action.kind === 'octave') {
+        e.preventDefault();
+        setOctaveShift(o => Math.max(-MAX_OCTAVE_SHIFT, Math.min(MAX_OCTAVE_SHIFT, o + action.shift)));
+        return;
       }
+      const step = stepForAction(action, keyDegreeRows, octaveShift, edo);
       if (step === null) return;
 
       e.preventDefault();
       if (sustain) { toggleLatched(step); return; }
-      startForKey(k, step);
+      startForKey(e.code, step);
     };
 
     const up = (e: KeyboardEvent) => {
-      const k = e.key.toLowerCase();
-      const focusedElsewhere = isTextEntry(e.target) || selectOpenRef.current;
-      if (focusedElsewhere && !playableKeys.has(k)) return;
-
-      const matchKb1 = resolveStepForKeyWithOrder(k, cesniSteps, orderKb1) !== null;
-      const matchKb2 = resolveStepForKeyWithOrder(k, cesni2RelSteps, orderKb2) !== null;
-      if (!matchKb1 && !matchKb2) return;
+      const action = keyLayout.bindings[e.code];
+      if (!action || action.kind === 'octave') return;
       if (sustain) return;
       e.preventDefault();
-      stopForKey(k);
+      stopForKey(e.code);
     };
 
     window.addEventListener('keydown', down);
     window.addEventListener('keyup', up);
     return () => { window.removeEventListener('keydown', down); window.removeEventListener('keyup', up); };
-  }, [cesniSteps, cesni2RelSteps, startStep2, sustain, waveform, gain, attack, release, baseFreq]);
+  }, [keyLayout, keyDegreeRows, octaveShift, edo, sustain, instrument, sampleSet, gain, adsr, release, baseFreq, activeTuning]);
+
+  // ------- Web MIDI input -------
+  const midiAccessRef = useRef<MIDIAccess | null>(null);
+  const [midiInputs, setMidiInputs] = useState<MidiInputInfo[]>([]);
+  const [midiInputId, setMidiInputId] = useState<string>('');
+  const [midiMode, setMidiMode] = useState<MidiMapMode>('degrees');
+  const [midiError, setMidiError] = useState<string | null>(null);
+
+  // Çeşni degrees of both keyboards (or the composed dizi) in ascending order (white-key mapping)
+  const midiDegreeSteps = useMemo(
+    () => (diziOn ? diziSteps(diziRows) : Array.from(new Set<number>([...cesniSteps, ...cesni2AbsSet])).sort((a, b) => a - b)),
+    [diziOn, diziRows, cesniSteps, cesni2AbsSet]
+  );
+
+  const enableMidi = async () => {
+    try {
+      const access = await requestMidiAccess();
+      if (!access) { setMidiError('Web MIDI is not supported in this browser.'); return; }
+      midiAccessRef.current = access;
+      const refresh = () => {
+        const list = listMidiInputs(access);
+        setMidiInputs(list);
+        setMidiInputId(prev => (list.some(i => i.id === prev) ? prev : (list[0]?.id ?? '')));
+      };
+      access.onstatechange = refresh;
+      refresh();
+      setMidiError(null);
+    } catch (err) {
+      setMidiError(`MIDI access denied: ${(err as Error)?.message ?? err}`);
+    }
+  };
+
+  // Keys released while the pedal was down; they stop when it comes up
+  const pedalHeldKeys = useRef(new Set<string>());
+  // Reassigned every render so the port listener always sees the current voices and settings
+  const onMidiMessage = useRef<(e: MIDIMessageEvent) => void>(() => {});
+  onMidiMessage.current = (e: MIDIMessageEvent) => {
+    const ev = parseMidiMessage(e.data);
+    if (!ev) return;
+    if (ev.type === 'sustain') {
+      setSustain(ev.on);
+      if (!ev.on) { pedalHeldKeys.current.forEach(k => stopForKey(k)); pedalHeldKeys.current.clear(); }
+      return;
+    }
+    const key = `midi:${ev.note}`;
+    if (ev.type === 'noteoff') {
+      if (sustain) pedalHeldKeys.current.add(key); else stopForKey(key);
+      return;
+    }
+    const step = stepForMidiNote(ev.note, midiMode, midiDegreeSteps);
+    if (step === null) return;
+    const g = velocityToGain(ev.velocity, gain);
+    if (sustain) { toggleLatched(step, g); return; }
+    pedalHeldKeys.current.delete(key);
+    stopForKey(key);
+    startForKey(key, step, g);
+  };
+
+  useEffect(() => {
+    const access = midiAccessRef.current;
+    const input = access && midiInputId ? access.inputs.get(midiInputId) : undefined;
+    if (!input) return;
+    const onMessage = (e: MIDIMessageEvent) => onMidiMessage.current(e);
+    input.addEventListener('midimessage', onMessage);
+    return () => input.removeEventListener('midimessage', onMessage);
+  }, [midiInputId, midiInputs]);
+
+  const enableMidiOut = async () => {
+    try {
+      const access = await requestMidiAccess(navigator, true);
+      if (!access) { setMidiOutError('Web MIDI is not supported in this browser.'); return; }
+      midiOutAccessRef.current = access;
+      const refresh = () => setMidiOutputs(listMidiOutputs(access));
+      access.onstatechange = refresh;
+      refresh();
+      setMidiOutError(null);
+    } catch (err) {
+      setMidiOutError(`MIDI output denied: ${(err as Error)?.message ?? err}`);
+    }
+  };
+
+  // Rebuild the output engine whenever port, mode or bend range changes
+  useEffect(() => {
+    const port = midiOutAccessRef.current && midiOutId ? midiOutAccessRef.current.outputs.get(midiOutId) : undefined;
+    midiOutEngineRef.current = port ? new MidiOutEngine(port, midiOutMode, bendRange) : null;
+    return () => { midiOutEngineRef.current = null; };
+  }, [midiOutId, midiOutMode, bendRange]);
 
   // Touch tooltip over kb1 12-TET marker row (dynamic span)
   const updateTetTipFromClientX = (clientX: number) => {
@@ -718,11 +1177,12 @@ export default function FiftyThreeTETKeyboard() {
       const prevSteps =
         prevId === 'custom'
           ? (customParsed.error ? [] : customParsed.steps)
-          : (CESNI_OPTIONS.find(o => o.id === prevId)?.steps ?? []);
+          : remapSteps(findCesni(prevId)?.steps ?? []);
       if (prevSteps.length) setCustomStepsStr(stepsToIntervals(prevSteps));
     }
     setCesniId(newId);
     prevCesniIdRef.current = newId;
+    setMakamId('none');
     selectOpenRef.current = false;
     (e.target as HTMLSelectElement).blur();
   };
@@ -735,15 +1195,373 @@ export default function FiftyThreeTETKeyboard() {
       const prevSteps =
         prevId === 'custom'
           ? (custom2Parsed.error ? [] : custom2Parsed.steps)
-          : (CESNI_OPTIONS.find(o => o.id === prevId)?.steps ?? []);
+          : remapSteps(findCesni(prevId)?.steps ?? []);
       if (prevSteps.length) setCustom2StepsStr(stepsToIntervals(prevSteps));
     }
     setCesni2Id(newId);
     prevCesni2IdRef.current = newId;
+    setMakamId('none');
+    selectOpenRef.current = false;
+    (e.target as HTMLSelectElement).blur();
+  };
+
+  // Makam selection: set both çeşnis and the usual starting pitch in one step
+  const handleMakamChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const id = (e.target as HTMLSelectElement).value;
+    const m = findMakam(id);
+    setMakamId(m ? m.id : 'none');
+    if (m) {
+      setCesniId(m.lower); prevCesniIdRef.current = m.lower;
+      setCesni2Id(m.upper); prevCesni2IdRef.current = m.upper;
+      setTranspose12(m.transpose12);
+    }
     selectOpenRef.current = false;
     (e.target as HTMLSelectElement).blur();
   };
 
+  // ------- Dizi composer -------
+  const recipeFor = (id: string) => findCesni(id)?.steps ?? null;
+  const composerChoices = cesniChoices.filter(o => o.id !== 'none' && o.id !== 'custom');
+
+  // Edits apply to the shown direction; without a separate descending form both share one list
+  const updateDiziSegments = (fn: (segs: DiziSegment[]) => DiziSegment[]) => {
+    allOff();
+    setDiziStack(st => (diziDir === 'descending' && st.descending
+      ? { ...st, descending: fn(st.descending) }
+      : { ...st, ascending: fn(st.ascending) }));
+  };
+  const patchDiziSegment = (i: number, patch: Partial<DiziSegment>) =>
+    updateDiziSegments(segs => segs.map((seg, j) => (j === i ? { ...seg, ...patch } : seg)));
+  const moveDiziSegment = (i: number, delta: number) => updateDiziSegments(segs => {
+    const j = i + delta;
+    if (j < 0 || j >= segs.length) return segs;
+    const next = segs.slice();
+    [next[i], next[j]] = [next[j], next[i]];
+    return next;
+  });
+  const removeDiziSegment = (i: number) => updateDiziSegments(segs => segs.filter((_, j) => j !== i));
+  // New segments start on the top degree of the last one
+  const addDiziSegment = () => updateDiziSegments(segs => {
+    if (segs.length >= MAX_DIZI_SEGMENTS) return segs;
+    const last = segs[segs.length - 1];
+    const top = last ? Math.max(last.anchor, ...segmentKomaSteps(last, recipeFor)) : 0;
+    return [...segs, { cesniId: 'rast_tetra', anchor: top }];
+  });
+  const setSeparateDescending = (on: boolean) => {
+    allOff();
+    setDiziStack(st => ({ ...st, descending: on ? st.ascending.map(seg => ({ ...seg })) : null }));
+    setDiziDir(on ? 'descending' : 'ascending');
+  };
+
+  const diziFromMakam = () => { if (!makam) return; allOff(); setDiziStack(stackFromMakam(makam)); setDiziDir('ascending'); };
+  // Keyboard 2 sits on Keyboard 1's top degree, as in the two-keyboard view
+  const diziFromKeyboards = () => {
+    const lower = recipeFor(cesniId);
+    const upper = recipeFor(cesni2Id);
+    if (!lower?.length || !upper?.length) return;
+    allOff();
+    setDiziStack({ ascending: [{ cesniId, anchor: 0 }, { cesniId: cesni2Id, anchor: Math.max(...lower) }], descending: null });
+    setDiziDir('ascending');
+  };
+
+  // Degrees of the other segments, offered as joints
+  const jointChoicesFor = (i: number) => {
+    const seen = new Set<number>();
+    return diziSegments.flatMap((seg, j) => (j === i ? [] : segmentKomaSteps(seg, recipeFor)
+      .filter(k => { if (seen.has(k)) return false; seen.add(k); return true; })
+      .map(k => ({ k, label: `${k} – ${findCesni(seg.cesniId)?.label ?? seg.cesniId} #${j + 1}` }))));
+  };
+
+  // ------- Shareable URL -------
+  const [linkCopied, setLinkCopied] = useState(false);
+  useEffect(() => {
+    const hash = encodeUrlState({
+      edo, makamId, cesniId, customStepsStr, cesni2Id, custom2StepsStr, transpose12,
+      showTet, showJust, showPerde, instrument, gain, attack, decay, sustainLevel, release, sustain,
+    });
+    window.history.replaceState(null, '', `${window.location.pathname}${window.location.search}#${hash}`);
+    setLinkCopied(false);
+  }, [edo, makamId, cesniId, customStepsStr, cesni2Id, custom2StepsStr, transpose12, showTet, showJust, showPerde, instrument, gain, attack, decay, sustainLevel, release, sustain]);
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setLinkCopied(true);
+    } catch {
+      window.prompt('Copy this link:', window.location.href);
+    }
+  };
+
+  // ------- Recorder transport -------
+  const [recState, setRecState] = useState<'idle' | 'recording' | 'playing'>('idle');
+  const [recording, setRecording] = useState<PerfEvent[]>([]);
+  const [recorderMsg, setRecorderMsg] = useState<string | null>(null);
+  const playbackTimers = useRef<number[]>([]);
+  const playbackVoices = useRef(new Map<string, { voice: VoiceLike; step: number }>());
+
+  const stopPlayback = () => {
+    playbackTimers.current.forEach(id => clearTimeout(id));
+    playbackTimers.current = [];
+    playbackVoices.current.forEach(({ voice, step }) => { maybeBeginFade(step); voice.stop(release, () => decGlow(step)); });
+    playbackVoices.current.clear();
+  };
+
+  const startRecording = () => {
+    stopPlayback();
+    recordingRef.current = { startedAt: performance.now(), events: [] };
+    setRecorderMsg(null);
+    setRecState('recording');
+  };
+
+  const stopTransport = () => {
+    if (recordingRef.current) {
+      const rec = recordingRef.current;
+      recordingRef.current = null;
+      // Close voices still sounding so the log is self-contained
+      const t = performance.now() - rec.startedAt;
+      const open = new Map<string, PerfEvent>();
+      rec.events.forEach(e => { if (e.type === 'off') open.delete(e.voice); else open.set(e.voice, e); });
+      open.forEach(e => rec.events.push({ ...e, t, type: 'off', gain: 0 }));
+      setRecording(rec.events);
+    }
+    stopPlayback();
+    setRecState('idle');
+  };
+
+  // Replays the log through makeVoice, lighting keys as it goes
+  const playRecording = () => {
+    if (!recording.length) return;
+    stopTransport();
+    setRecState('playing');
+    for (const e of recording) {
+      const id = window.setTimeout(() => {
+        const cur = playbackVoices.current.get(e.voice);
+        if (e.type === 'on') {
+          if (cur) { maybeBeginFade(cur.step); cur.voice.stop(release, () => decGlow(cur.step)); }
+          playbackVoices.current.set(e.voice, { voice: makeVoice(e.freq, e.gain), step: e.step });
+          incGlow(e.step); setActiveHz(e.freq); setActiveStep(e.step);
+        } else if (e.type === 'retune' && cur) {
+          cur.voice.setFrequency(e.freq);
+          decGlow(cur.step); incGlow(e.step);
+          playbackVoices.current.set(e.voice, { voice: cur.voice, step: e.step });
+          setActiveHz(e.freq); setActiveStep(e.step);
+        } else if (e.type === 'off' && cur) {
+          maybeBeginFade(cur.step);
+          cur.voice.stop(release, () => decGlow(cur.step));
+          playbackVoices.current.delete(e.voice);
+        }
+      }, e.t);
+      playbackTimers.current.push(id);
+    }
+    playbackTimers.current.push(window.setTimeout(() => { stopPlayback(); setRecState('idle'); }, eventLogDuration(recording) + 20));
+  };
+
+  const exportRecordingMidi = () => downloadBlob('performance.mid', new Blob([eventsToSmf(recording, bendRange)], { type: 'audio/midi' }));
+  const exportRecordingJson = () => downloadText('performance.json', eventLogToJson(recording), 'application/json');
+  const importRecordingJson = async (file: File) => {
+    const { events, error } = parseEventLog(await file.text());
+    if (error) { setRecorderMsg(`Import failed: ${error}`); return; }
+    stopTransport();
+    setRecording(events);
+    setRecorderMsg(`Loaded ${events.length} events.`);
+  };
+
+  // ------- SymbTr score playback -------
+  const [scoreName, setScoreName] = useState<string>('');
+  const [scoreMsg, setScoreMsg] = useState<string | null>(null);
+  const [scoreState, setScoreState] = useState<'idle' | 'playing' | 'paused'>('idle');
+  const [scoreSpeed, setScoreSpeed] = useState(1);
+  const [scoreLoop, setScoreLoop] = useState(false);
+  const [loopFrom, setLoopFrom] = useState(1); // 1-based note numbers
+  const [loopTo, setLoopTo] = useState(1);
+  const [scoreNow, setScoreNow] = useState<number | null>(null);
+  const scoreCursor = useRef(0); // index of the next note
+  const scoreTimer = useRef<number | null>(null);
+  const scoreVoice = useRef<{ voice: VoiceLike; step: number } | null>(null);
+
+  const releaseScoreVoice = () => {
+    const cur = scoreVoice.current;
+    if (!cur) return;
+    logEvent('off', 'score', cur.step);
+    maybeBeginFade(cur.step);
+    cur.voice.stop(release, () => decGlow(cur.step));
+    scoreVoice.current = null;
+  };
+  const clearScoreTimer = () => { if (scoreTimer.current !== null) clearTimeout(scoreTimer.current); scoreTimer.current = null; };
+
+  const stopScore = () => {
+    clearScoreTimer();
+    releaseScoreVoice();
+    scoreCursor.current = 0;
+    setScoreNow(null);
+    setScoreState('idle');
+  };
+
+  // Re-assigned every render so the timer chain always sees current speed, loop and synth settings
+  const advanceScore = useRef<() => void>(() => {});
+  advanceScore.current = () => {
+    if (!score) return;
+    releaseScoreVoice();
+    const lo = Math.max(0, Math.min(loopFrom, loopTo) - 1);
+    const hi = Math.min(score.notes.length - 1, Math.max(loopFrom, loopTo) - 1);
+    let i = scoreCursor.current;
+    if (scoreLoop && (i < lo || i > hi)) i = lo;
+    if (i >= score.notes.length) { stopScore(); return; }
+    const note = score.notes[i];
+    if (note.koma !== null) {
+      const step = stepForKoma(note.koma, transpose12, edo);
+      scoreVoice.current = { voice: startVoice(step, gain, 'score'), step };
+    }
+    scoreCursor.current = i + 1;
+    setScoreNow(i);
+    scoreTimer.current = window.setTimeout(() => advanceScore.current(), note.ms / scoreSpeed);
+  };
+
+  const playScore = () => {
+    if (!score || scoreState === 'playing') return;
+    if (scoreState === 'idle') scoreCursor.current = 0;
+    setScoreState('playing');
+    advanceScore.current();
+  };
+  // Pausing replays the interrupted note on resume
+  const pauseScore = () => {
+    if (scoreState !== 'playing') return;
+    clearScoreTimer();
+    releaseScoreVoice();
+    scoreCursor.current = Math.max(0, scoreCursor.current - 1);
+    setScoreState('paused');
+  };
+  useEffect(() => {
+    const timer = scoreTimer;
+    return () => { if (timer.current !== null) clearTimeout(timer.current); };
+  }, []);
+
+  const loadScore = (text: string, name: string) => {
+    const { score: parsed, error } = parseSymbTr(text);
+    if (error || !parsed) { setScoreMsg(`Import failed: ${error}`); return; }
+    stopScore();
+    setScore(parsed);
+    setScoreName(name);
+    setLoopFrom(1);
+    setLoopTo(parsed.notes.length);
+    setScoreMsg(null);
+  };
+  const closeScore = () => { stopScore(); setScore(null); setScoreName(''); };
+
+  const scoreRangeLabel = useMemo(() => {
+    if (!score || score.minKoma === null || score.maxKoma === null) return '—';
+    const name = (k: number) => perdeAt(k)?.name ?? `koma ${k}`;
+    return `${name(score.minKoma)} – ${name(score.maxKoma)}`;
+  }, [score]);
+  const scoreNowNote = score && scoreNow !== null ? score.notes[scoreNow] : null;
+
+  // ------- Offline WAV rendering -------
+  const [renderSource, setRenderSource] = useState<'recording' | 'sequence'>('recording');
+  const [renderSeqStr, setRenderSeqStr] = useState<string>('0:0.5 9:0.5 17:0.5 22:0.5 31:1');
+  const [renderRate, setRenderRate] = useState<number>(44100);
+  const [renderBits, setRenderBits] = useState<16 | 24>(16);
+  const [renderMsg, setRenderMsg] = useState<string | null>(null);
+  const renderSeqParsed = useMemo(() => parseStepSequence(renderSeqStr, baseFreq, edo, gain), [renderSeqStr, baseFreq, edo, gain]);
+
+  const renderWav = async () => {
+    const events = renderSource === 'recording' ? recording : renderSeqParsed.events;
+    if (!events.length) { setRenderMsg('Nothing to render.'); return; }
+    setRenderMsg('Rendering…');
+    try {
+      const buf = await renderEvents(events, { sampleRate: renderRate, instrument, samples: sampleSet, envelope: adsr, release, bus: busSettings });
+      downloadBlob(`makam-${renderSource}.wav`, new Blob([encodeWav(buf, renderBits)], { type: 'audio/wav' }));
+      setRenderMsg(`Rendered ${buf.duration.toFixed(2)} s at ${buf.sampleRate} Hz, peak ${peakLevel(buf).toFixed(3)}.`);
+    } catch (err) {
+      setRenderMsg(`Render failed: ${(err as Error)?.message ?? err}`);
+    }
+  };
+
+  // ------- User çeşni library -------
+  const [saveDraft, setSaveDraft] = useState<{ kb: 1 | 2; name: string; notes: string } | null>(null);
+  const [libraryMsg, setLibraryMsg] = useState<string | null>(null);
+
+  // Store the current custom intervals under a name and select the saved entry
+  const saveCustomToLibrary = () => {
+    if (!saveDraft || !saveDraft.name.trim()) return;
+    const parsed = saveDraft.kb === 1 ? customParsed : custom2Parsed;
+    if (parsed.error || parsed.steps.length < 2) return;
+    const entry: UserCesni = { id: newUserCesniId(), name: saveDraft.name.trim(), notes: saveDraft.notes.trim(), steps: parsed.steps };
+    setUserCesnis(list => [...list, entry]);
+    if (saveDraft.kb === 1) { setCesniId(entry.id); prevCesniIdRef.current = entry.id; }
+    else { setCesni2Id(entry.id); prevCesni2IdRef.current = entry.id; }
+    setSaveDraft(null);
+  };
+
+  const updateUserCesni = (id: string, patch: Partial<Pick<UserCesni, 'name' | 'notes'>>) =>
+    setUserCesnis(list => list.map(u => (u.id === id ? { ...u, ...patch } : u)));
+
+  // Deleting a selected entry keeps its intervals as a custom recipe
+  const deleteUserCesni = (id: string) => {
+    const entry = userCesnis.find(u => u.id === id);
+    if (!entry) return;
+    // Saved steps are 53-koma; the custom string is read in the active division
+    const intervals = stepsToIntervals(remapSteps(entry.steps));
+    if (cesniId === id) { setCustomStepsStr(intervals); setCesniId('custom'); prevCesniIdRef.current = 'custom'; }
+    if (cesni2Id === id) { setCustom2StepsStr(intervals); setCesni2Id('custom'); prevCesni2IdRef.current = 'custom'; }
+    setUserCesnis(list => list.filter(u => u.id !== id));
+  };
+
+  const exportLibrary = () => downloadText('cesni-library.json', libraryToJson(userCesnis), 'application/json');
+  const importLibrary = async (file: File) => {
+    const { cesnis, skipped, error } = parseLibraryJson(await file.text(), MAX_STEP);
+    if (error) { setLibraryMsg(`Import failed: ${error}`); return; }
+    setUserCesnis(list => mergeLibrary(list, cesnis));
+    setLibraryMsg(`Imported ${cesnis.length} çeşni${cesnis.length === 1 ? '' : 's'}${skipped ? `, skipped ${skipped} invalid` : ''}.`);
+  };
+
+  // ------- Scala export / import -------
+  const [sclScope, setSclScope] = useState<'dizi' | 'octave'>('dizi');
+  const [sclReport, setSclReport] = useState<{ description: string; rows: SnappedPitch[]; dropped: number[]; error: string | null } | null>(null);
+
+  const sclAbsSteps = () => (sclScope === 'octave'
+    ? Array.from({ length: edo + 1 }, (_, i) => i)
+    : diziOn ? diziSteps(diziRows) : Array.from(new Set<number>([...cesniSteps, ...cesni2AbsSet])));
+  const sclBaseName = () => {
+    const labels = (diziOn ? diziRows.map(r => r.cesniId) : [cesniId, cesni2Id]).map(id => findCesni(id)?.label ?? id);
+    return sclScope === 'octave' ? `${edo}-TET on ${baseName}` : `${labels.join(' + ')} on ${baseName}`;
+  };
+  const sclFileStem = () => sclBaseName().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+  const exportScl = () => {
+    const name = `${sclFileStem()}.scl`;
+    downloadText(name, buildScl(`${sclBaseName()} (${edo}-TET steps)`, sclAbsSteps(), edo, name));
+  };
+  const exportKbm = () => {
+    const name = `${sclFileStem()}.kbm`;
+    downloadText(name, buildKbm(sclSize(sclAbsSteps(), edo), baseFreq, 60, name));
+  };
+
+  // Snap an imported .scl to steps; Keyboard 1 takes up to a fifth, Keyboard 2 stacks the rest
+  const importScl = async (file: File) => {
+    const parsed = parseScl(await file.text());
+    if (parsed.error) { setSclReport({ description: parsed.description, rows: [], dropped: [], error: parsed.error }); return; }
+    const rows = snapToSteps(parsed.cents, edo);
+    const steps = Array.from(new Set<number>([0, ...rows.map(r => r.step)]))
+      .filter(s => s >= 0 && s <= edo)
+      .sort((a, b) => a - b);
+    const kb1 = steps.filter(s => s <= maxStep);
+    const top1 = kb1[kb1.length - 1];
+    const kb2 = steps.filter(s => s > top1 && s - top1 <= maxStep).map(s => s - top1);
+    const used = new Set<number>([...kb1, ...kb2.map(s => s + top1)]);
+    const dropped = rows.map(r => r.step).filter(s => !used.has(s));
+
+    setCustomStepsStr(stepsToIntervals(kb1));
+    setCesniId('custom'); prevCesniIdRef.current = 'custom';
+    if (kb2.length) {
+      setCustom2StepsStr(stepsToIntervals([0, ...kb2]));
+      setCesni2Id('custom'); prevCesni2IdRef.current = 'custom';
+    } else {
+      setCesni2Id('none'); prevCesni2IdRef.current = 'none';
+    }
+    setMakamId('none');
+    setSclReport({ description: parsed.description, rows, dropped, error: null });
+  };
+
   // ------------------------------ Render ------------------------------
   return (
     <div className="min-h-screen bg-neutral-950 text-neutral-100 p-6">
@@ -752,7 +1570,7 @@ export default function FiftyThreeTETKeyboard() {
         <header className="flex flex-col gap-2">
           <h1 className="text-2xl sm:text-3xl font-semibold tracking-tight">Makam Klavyesi | Dinamik Aralıklar</h1>
           <p className="text-neutral-300 text-sm">
-            Each step ≈ {CENTS_PER_STEP.toFixed(2)} cents. Base pitch defaults to {fmtHz(D4_FREQ)} Hz (D4).
+            Each step ≈ {centsPerStep.toFixed(2)} cents ({edo}-EDO). Base pitch defaults to {fmtHz(D4_FREQ)} Hz (D4).
           </p>
           <div className="flex items-center gap-3">
             <button onClick={() => {
@@ -771,9 +1589,46 @@ export default function FiftyThreeTETKeyboard() {
               setLastTestRun(Date.now());
             }} className="px-2 py-1 rounded-md bg-neutral-800 hover:bg-neutral-700 text-xs">Run self-tests (console)</button>
             {lastTestRun ? <span className="text-[11px] text-neutral-400">Last run: {new Date(lastTestRun).toLocaleTimeString()}</span> : null}
+            <button onClick={copyLink} className="px-2 py-1 rounded-md bg-neutral-800 hover:bg-neutral-700 text-xs">Copy link</button>
+            {linkCopied && <span className="text-[11px] text-green-400">Link copied</span>}
           </div>
+          {urlWarnings.length > 0 && (
+            <div className="flex items-start justify-between gap-3 rounded-md bg-amber-900/60 border border-amber-600 px-3 py-2 text-xs text-amber-100">
+              <div>
+                <div className="font-semibold">Some link parameters were invalid and have been reset to defaults:</div>
+                <ul className="list-disc pl-4">{urlWarnings.map((w, i) => (<li key={i}>{w}</li>))}</ul>
+              </div>
+              <button onClick={() => setUrlWarnings([])} className="px-2 py-0.5 rounded bg-amber-700 hover:bg-amber-600">Dismiss</button>
+            </div>
+          )}
         </header>
 
+        {/* Makam */}
+        <div className="rounded-2xl bg-neutral-900 p-4 space-y-3">
+          <h2 className="font-semibold">Makam</h2>
+          <div className="flex flex-wrap items-center gap-4 text-sm">
+            <label className="flex items-center gap-2">Select
+              <select
+                className="bg-neutral-800 rounded px-2 py-1"
+                value={makamId}
+                onMouseDown={() => (selectOpenRef.current = true)}
+                onChange={handleMakamChange}
+                onBlur={() => (selectOpenRef.current = false)}
+                onKeyDown={(e) => { if (e.key === 'Escape' || e.key === 'Enter') selectOpenRef.current = false; }}
+              >
+                <option value="none">None (choose çeşnis by hand)</option>
+                {MAKAMS.map(m => (<option key={m.id} value={m.id}>{m.label}</option>))}
+              </select>
+            </label>
+            {makam && (
+              <span className="text-neutral-400 text-xs">
+                Durak <span className="font-mono">{durakStep}</span> • Güçlü <span className="font-mono">{gucluStep}</span> • Joint on {makam.joinName} (<span className="font-mono">{remapKomaStep(makam.join, edo)}</span>)
+              </span>
+            )}
+          </div>
+          {makam && <p className="text-xs text-neutral-300">{makam.seyir}</p>}
+        </div>
+
         {/* Starting pitch + markers toggle */}
         <div className="rounded-2xl bg-neutral-900 p-4 space-y-3">
           <h2 className="font-semibold">Starting pitch</h2>
@@ -792,6 +1647,21 @@ export default function FiftyThreeTETKeyboard() {
                 ))}
               </select>
             </label>
+            <label className="flex items-center gap-2">Division
+              <select
+                className="bg-neutral-800 rounded px-2 py-1"
+                value={edo}
+                onMouseDown={() => (selectOpenRef.current = true)}
+                onChange={(e) => { allOff(); setEdo(parseInt((e.target as HTMLSelectElement).value, 10)); selectOpenRef.current = false; (e.target as HTMLSelectElement).blur(); }}
+                onBlur={() => (selectOpenRef.current = false)}
+                onKeyDown={(e) => { if (e.key === 'Escape' || e.key === 'Enter') selectOpenRef.current = false; }}
+                title="Equal divisions of the octave"
+              >
+                {(EDO_CHOICES.includes(edo) ? EDO_CHOICES : [...EDO_CHOICES, edo].sort((a, b) => a - b)).map(n => (
+                  <option key={n} value={n}>{n}-EDO{n === STEPS ? ' (koma)' : ''}</option>
+                ))}
+              </select>
+            </label>
             <div className="flex items-center gap-3">
               <label className="flex items-center gap-2">12-TET markers
                 <input type="checkbox" checked={showTet} onChange={(e)=> setShowTet(e.target.checked)} />
@@ -799,10 +1669,164 @@ export default function FiftyThreeTETKeyboard() {
               <label className="flex items-center gap-2">Just markers
                 <input type="checkbox" checked={showJust} onChange={(e)=> setShowJust(e.target.checked)} />
               </label>
+              <label className="flex items-center gap-2">Perde names
+                <input type="checkbox" checked={showPerde} onChange={(e)=> setShowPerde(e.target.checked)} />
+              </label>
             </div>
+            <div className="flex flex-wrap items-center gap-3">
+              <label className="flex items-center gap-2">Surface
+                <select className="bg-neutral-800 rounded px-2 py-1" value={surface} onChange={(e) => setSurface(e.target.value as 'linear' | 'hex')}>
+                  <option value="linear">Linear keyboards</option>
+                  <option value="hex">Hex grid (isomorphic)</option>
+                </select>
+              </label>
+              {surface === 'hex' && (
+                <select className="bg-neutral-800 rounded px-2 py-1"
+                        value={HEX_PRESETS.find(p => p.right === hexSettings.right && p.upRight === hexSettings.upRight)?.id ?? ''}
+                        onChange={(e) => {
+                          const p = HEX_PRESETS.find(x => x.id === e.target.value);
+                          if (p) setHexSettings({ ...hexSettings, right: p.right, upRight: p.upRight });
+                        }}>
+                  {HEX_PRESETS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+                  <option value="" disabled>Custom generators</option>
+                </select>
+              )}
+              {surface === 'hex' && ([
+                ['right', 'Right', HEX_LIMITS.generator], ['upRight', 'Up-right', HEX_LIMITS.generator],
+                ['rows', 'Rows', HEX_LIMITS.rows], ['cols', 'Columns', HEX_LIMITS.cols], ['lowKoma', 'Lowest koma', HEX_LIMITS.lowKoma],
+              ] as const).map(([key, label, [lo, hi]]) => (
+                <label key={key} className="flex items-center gap-2">{label}
+                  <input type="number" className="w-16 bg-neutral-800 rounded px-2 py-1" min={lo} max={hi} value={hexSettings[key]}
+                         onChange={(e) => {
+                           const v = parseInt(e.target.value, 10);
+                           if (Number.isFinite(v) && v >= lo && v <= hi) setHexSettings({ ...hexSettings, [key]: v });
+                         }} />
+                </label>
+              ))}
+              {surface === 'hex' && <span className="text-neutral-400 text-xs">generators in koma (up-left = {hexSettings.upRight - hexSettings.right}); glide works on the linear keyboards only</span>}
+            </div>
+            {showJust && (
+              <div className="flex flex-wrap items-center gap-3">
+                <label className="flex items-center gap-2">Just set
+                  <select className="bg-neutral-800 rounded px-2 py-1" value={justSettings.set}
+                          onChange={(e) => {
+                            const next = { ...justSettings, set: e.target.value as JustSetId };
+                            const kind = justBoundKind(next);
+                            setJustSettings(justBoundKind(justSettings) === kind ? next : { ...next, bound: JUST_BOUNDS[kind].initial });
+                          }}>
+                    {JUST_SETS.map(j => <option key={j.id} value={j.id}>{j.label}</option>)}
+                  </select>
+                </label>
+                {justSettings.set !== 'classic' && justSettings.set !== 'pythagorean' && (
+                  <label className="flex items-center gap-2">Filter
+                    <select className="bg-neutral-800 rounded px-2 py-1" value={justSettings.filter}
+                            onChange={(e) => {
+                              const filter = e.target.value as JustSettings['filter'];
+                              setJustSettings({ ...justSettings, filter, bound: JUST_BOUNDS[filter].initial });
+                            }}>
+                      <option value="odd">Odd limit</option>
+                      <option value="tenney">Tenney height</option>
+                    </select>
+                  </label>
+                )}
+                {justSettings.set !== 'classic' && (
+                  <label className="flex items-center gap-2">{justSettings.set === 'pythagorean' ? 'Fifths each way' : justSettings.filter === 'odd' ? 'Max odd' : 'Max log₂(n·d)'}
+                    <input type="number" className="w-16 bg-neutral-800 rounded px-2 py-1" value={justSettings.bound}
+                           min={JUST_BOUNDS[justBoundKind(justSettings)].min} max={JUST_BOUNDS[justBoundKind(justSettings)].max}
+                           onChange={(e) => {
+                             const v = parseInt(e.target.value, 10);
+                             const { min, max } = JUST_BOUNDS[justBoundKind(justSettings)];
+                             if (Number.isFinite(v) && v >= min && v <= max) setJustSettings({ ...justSettings, bound: v });
+                           }} />
+                  </label>
+                )}
+                <span className="text-neutral-400 text-xs">{justRatioList.length} ratios per octave; hover a marker for cents and comma names</span>
+              </div>
+            )}
             {!isTouch && (
-              <p className="text-xs text-neutral-400">Hotkeys: <span className="font-mono">A S D F G</span> for Keyboard 1; <span className="font-mono">H J K L ;</span> for Keyboard 2. With <em>Sustain</em> on, keys toggle.</p>
+              <p className="text-xs text-neutral-400">Hotkeys follow the <em>{keyLayout.name}</em> layout (edit it under Key layout) and are printed on the keys they play. With <em>Sustain</em> on, keys toggle.</p>
+            )}
+          </div>
+        </div>
+
+        {!isTouch && (
+          <KeyLayoutPanel layout={keyLayout} onChange={setKeyLayout} rowCount={keyDegreeRows.length} browserMap={browserKeyMap} octaveShift={octaveShift} />
+        )}
+
+        {/* MIDI input */}
+        <div className="rounded-2xl bg-neutral-900 p-4 space-y-3">
+          <h2 className="font-semibold">MIDI input</h2>
+          <div className="flex flex-wrap items-center gap-4 text-sm">
+            {!midiAccessRef.current ? (
+              <button onClick={enableMidi} className="px-3 py-1 rounded-md bg-neutral-800 hover:bg-neutral-700">Enable MIDI</button>
+            ) : (
+              <label className="flex items-center gap-2">Device
+                <select
+                  className="bg-neutral-800 rounded px-2 py-1"
+                  value={midiInputId}
+                  onChange={(e) => setMidiInputId((e.target as HTMLSelectElement).value)}
+                >
+                  {midiInputs.length === 0 && <option value="">No inputs found</option>}
+                  {midiInputs.map(i => (<option key={i.id} value={i.id}>{i.name}</option>))}
+                </select>
+              </label>
+            )}
+            <label className="flex items-center gap-2">Mapping
+              <select
+                className="bg-neutral-800 rounded px-2 py-1"
+                value={midiMode}
+                onChange={(e) => setMidiMode((e.target as HTMLSelectElement).value as MidiMapMode)}
+              >
+                <option value="degrees">White keys → çeşni degrees</option>
+                <option value="chromatic">Chromatic → koma steps</option>
+              </select>
+            </label>
+            <span className="text-neutral-400 text-xs">C4 = durak (step 0). Velocity scales gain; CC64 drives Sustain.</span>
+            {midiError && <span className="text-red-400 text-xs">{midiError}</span>}
+          </div>
+        </div>
+
+        {/* MIDI output */}
+        <div className="rounded-2xl bg-neutral-900 p-4 space-y-3">
+          <h2 className="font-semibold">MIDI output</h2>
+          <div className="flex flex-wrap items-center gap-4 text-sm">
+            {!midiOutAccessRef.current ? (
+              <button onClick={enableMidiOut} className="px-3 py-1 rounded-md bg-neutral-800 hover:bg-neutral-700">Enable MIDI output</button>
+            ) : (
+              <label className="flex items-center gap-2">Device
+                <select
+                  className="bg-neutral-800 rounded px-2 py-1"
+                  value={midiOutId}
+                  onChange={(e) => { allOff(); setMidiOutId((e.target as HTMLSelectElement).value); }}
+                >
+                  <option value="">Off (built-in sound)</option>
+                  {midiOutputs.map(o => (<option key={o.id} value={o.id}>{o.name}</option>))}
+                </select>
+              </label>
             )}
+            <label className="flex items-center gap-2">Mode
+              <select
+                className="bg-neutral-800 rounded px-2 py-1"
+                value={midiOutMode}
+                onChange={(e) => { allOff(); setMidiOutMode((e.target as HTMLSelectElement).value as MidiOutMode); }}
+              >
+                <option value="mpe">MPE lower zone</option>
+                <option value="multi">Pitch bend, channels 2–16</option>
+                <option value="mts">MIDI Tuning Standard (SysEx)</option>
+              </select>
+            </label>
+            {midiOutMode !== 'mts' && (
+              <label className="flex items-center gap-2">Bend range
+                <input
+                  type="number" min={1} max={96} step={1}
+                  className="bg-neutral-800 rounded px-2 py-1 w-16"
+                  value={bendRange}
+                  onChange={(e) => { const v = parseInt(e.target.value, 10); if (Number.isFinite(v) && v > 0) { allOff(); setBendRange(v); } }}
+                />
+                <span className="text-neutral-400 text-xs">semitones</span>
+              </label>
+            )}
+            {midiOutError && <span className="text-red-400 text-xs">{midiOutError}</span>}
           </div>
         </div>
 
@@ -810,19 +1834,42 @@ export default function FiftyThreeTETKeyboard() {
         <div className="rounded-2xl bg-neutral-900 p-4 space-y-3">
           <h2 className="font-semibold">Sound</h2>
           <div className="grid sm:grid-cols-2 gap-4 text-sm items-center">
-            <label className="flex items-center gap-2">Waveform
+            <label className="flex items-center gap-2">Instrument
               <select
                 className="bg-neutral-800 rounded px-2 py-1"
-                value={waveform}
-                onChange={(e)=> setWaveform((e.target as HTMLSelectElement).value as OscillatorType)}
+                value={instrument}
+                onChange={(e)=> setInstrument((e.target as HTMLSelectElement).value as InstrumentId)}
               >
-                <option value="sine">sine</option>
-                <option value="triangle">triangle</option>
-                <option value="square">square</option>
-                <option value="sawtooth">sawtooth</option>
+                {INSTRUMENTS.map(i => (
+                  <option key={i.id} value={i.id}>{i.id === 'sampler' && sampleSet ? `Sampler – ${sampleSet.name}` : i.label}</option>
+                ))}
               </select>
             </label>
 
+            {instrument === 'sampler' && (
+              <div className="flex flex-wrap items-center gap-2 sm:col-span-2">
+                <label className="flex items-center gap-2">Load samples (.json + .wav)
+                  <input
+                    type="file" accept=".json,.wav,application/json,audio/wav" multiple
+                    className="text-xs"
+                    onChange={async (e) => {
+                      const files = Array.from(e.target.files ?? []);
+                      e.target.value = '';
+                      if (!files.length) return;
+                      setSampleMsg('Loading…');
+                      const { set, error } = await loadSampleSet(files, ab => getCtx().decodeAudioData(ab));
+                      if (error || !set) { setSampleMsg(`Load failed: ${error}`); return; }
+                      setSampleSet(set);
+                      setSampleMsg(`Loaded '${set.name}' (${set.zones.length} sample${set.zones.length > 1 ? 's' : ''}).`);
+                    }}
+                  />
+                </label>
+                <span className="text-xs text-neutral-400">
+                  {sampleMsg ?? (sampleSet ? `Using '${sampleSet.name}'.` : 'No samples loaded – playing sine until a set is picked.')}
+                </span>
+              </div>
+            )}
+
             <div className="flex items-center gap-3">
               <span className="w-16 text-neutral-300">Gain</span>
               <input type="range" min={0} max={0.6} step={0.01} value={gain} onChange={(e)=> setGain(parseFloat(e.target.value))} className="w-full" />
@@ -835,100 +1882,515 @@ export default function FiftyThreeTETKeyboard() {
               <span className="w-14 text-right font-mono">{attack.toFixed(3)}s</span>
             </div>
 
+            <div className="flex items-center gap-3">
+              <span className="w-16 text-neutral-300">Decay</span>
+              <input type="range" min={0} max={1.5} step={0.01} value={decay} onChange={(e)=> setDecay(parseFloat(e.target.value))} className="w-full" />
+              <span className="w-14 text-right font-mono">{decay.toFixed(2)}s</span>
+            </div>
+
+            <div className="flex items-center gap-3">
+              <span className="w-16 text-neutral-300">Sustain</span>
+              <input type="range" min={0} max={1} step={0.01} value={sustainLevel} onChange={(e)=> setSustainLevel(parseFloat(e.target.value))} className="w-full" />
+              <span className="w-14 text-right font-mono">{Math.round(sustainLevel * 100)}%</span>
+            </div>
+
             <div className="flex items-center gap-3">
               <span className="w-16 text-neutral-300">Release</span>
               <input type="range" min={0.02} max={0.6} step={0.005} value={release} onChange={(e)=> setRelease(parseFloat(e.target.value))} className="w-full" />
               <span className="w-14 text-right font-mono">{release.toFixed(3)}s</span>
             </div>
           </div>
-        </div>
 
-        {/* KEYBOARD 2 container (on top) */}
-        <div className="rounded-2xl bg-neutral-900 p-4 shadow-inner space-y-4">
-          {/* Big selector as the title */}
-          <div className="flex flex-wrap items-center gap-4">
-            <select
-              className="bg-neutral-800/80 hover:bg-neutral-800 rounded-lg px-3 py-2 text-lg sm:text-2xl font-bold tracking-tight"
-              value={cesni2Id}
-              onMouseDown={() => (selectOpenRef.current = true)}
-              onChange={handleCesni2Change}
-              onBlur={() => (selectOpenRef.current = false)}
-              onKeyDown={(e) => { if (e.key === 'Escape' || e.key === 'Enter') selectOpenRef.current = false; }}
-              title="Çeşni (Keyboard 2)"
-            >
-              {CESNI_OPTIONS.map((opt)=> (<option key={opt.id} value={opt.id}>{opt.label}</option>))}
-            </select>
+          <div className="grid sm:grid-cols-2 gap-4 text-sm items-center">
+            <label className="flex items-center gap-2 sm:col-span-2">Low-pass filter envelope
+              <input type="checkbox" checked={filterOn} onChange={(e)=> setFilterOn(e.target.checked)} />
+              <span className="text-xs text-neutral-400">opens by the amount on attack, settles with the sustain level, closes on release</span>
+            </label>
+            {filterOn && (
+              <>
+                <div className="flex items-center gap-3">
+                  <span className="w-16 text-neutral-300">Cutoff</span>
+                  <input type="range" min={Math.log2(60)} max={Math.log2(8000)} step={0.01} value={Math.log2(filterCutoff)}
+                         onChange={(e)=> setFilterCutoff(Math.round(Math.pow(2, parseFloat(e.target.value))))} className="w-full" />
+                  <span className="w-14 text-right font-mono">{filterCutoff} Hz</span>
+                </div>
+                <div className="flex items-center gap-3">
+                  <span className="w-16 text-neutral-300">Amount</span>
+                  <input type="range" min={0} max={6} step={0.1} value={filterAmount} onChange={(e)=> setFilterAmount(parseFloat(e.target.value))} className="w-full" />
+                  <span className="w-14 text-right font-mono">{filterAmount.toFixed(1)} oct</span>
+                </div>
+                <div className="flex items-center gap-3">
+                  <span className="w-16 text-neutral-300">Q</span>
+                  <input type="range" min={0.1} max={12} step={0.1} value={filterQ} onChange={(e)=> setFilterQ(parseFloat(e.target.value))} className="w-full" />
+                  <span className="w-14 text-right font-mono">{filterQ.toFixed(1)}</span>
+                </div>
+              </>
+            )}
+          </div>
 
-            {cesni2Id === 'custom' && (
-              <span className="flex items-center gap-2">
-                <input
-                  className="bg-neutral-800 rounded px-2 py-2 w-52 text-sm"
-                  placeholder="intervals e.g. 4 9 9"
-                  value={custom2StepsStr}
-                  onChange={(e)=> setCustom2StepsStr(e.target.value)}
-                />
-                {custom2Parsed.error ? (
-                  <span className="text-red-400 text-xs">{custom2Parsed.error}</span>
-                ) : (
-                  <span className="text-neutral-400 text-xs">Intervals in koma; use space to separate</span>
+          <div className="grid sm:grid-cols-2 gap-4 text-sm items-center">
+            <label className="flex items-center gap-2 sm:col-span-2">Glide mode
+              <input type="checkbox" checked={glideOn} onChange={(e)=> { allOff(); setGlideOn(e.target.checked); }} />
+              <span className="text-xs text-neutral-400">slide along the keys for a continuous pitch; move up/down inside a key for {gestureMode === 'vibrato' ? 'vibrato' : 'a bend'}</span>
+            </label>
+            {glideOn && (
+              <>
+                <div className="flex items-center gap-3">
+                  <span className="w-16 text-neutral-300">Glide</span>
+                  <input type="range" min={0} max={0.5} step={0.005} value={portamento} onChange={(e)=> setPortamento(parseFloat(e.target.value))} className="w-full" />
+                  <span className="w-14 text-right font-mono">{portamento.toFixed(3)}s</span>
+                </div>
+                <label className="flex items-center gap-2">Vertical
+                  <select className="bg-neutral-800 rounded px-2 py-1" value={gestureMode} onChange={(e)=> setGestureMode(e.target.value as GestureMode)}>
+                    <option value="vibrato">Vibrato depth</option>
+                    <option value="bend">Pitch bend</option>
+                  </select>
+                </label>
+                <div className="flex items-center gap-3">
+                  <span className="w-16 text-neutral-300">Range</span>
+                  <input type="range" min={0.5} max={9} step={0.5} value={gestureRange} onChange={(e)=> setGestureRange(parseFloat(e.target.value))} className="w-full" />
+                  <span className="w-16 text-right font-mono">{gestureRange} koma</span>
+                </div>
+                {gestureMode === 'vibrato' && (
+                  <div className="flex items-center gap-3">
+                    <span className="w-16 text-neutral-300">Rate</span>
+                    <input type="range" min={1} max={10} step={0.1} value={vibratoRate} onChange={(e)=> setVibratoRate(parseFloat(e.target.value))} className="w-full" />
+                    <span className="w-14 text-right font-mono">{vibratoRate.toFixed(1)} Hz</span>
+                  </div>
                 )}
-              </span>
+              </>
+            )}
+          </div>
+
+          <div className="text-sm text-neutral-300 font-semibold">Master</div>
+          <div className="grid sm:grid-cols-2 gap-4 text-sm items-center">
+            <div className="flex items-center gap-3">
+              <span className="w-16 text-neutral-300">Volume</span>
+              <input type="range" min={0} max={1} step={0.01} value={masterVolume} onChange={(e)=> setMasterVolume(parseFloat(e.target.value))} className="w-full" />
+              <span className="w-14 text-right font-mono">{Math.round(masterVolume * 100)}%</span>
+            </div>
+            <div className="flex items-center gap-3">
+              <span className="w-16 text-neutral-300">Reverb</span>
+              <input type="range" min={0} max={1} step={0.01} value={reverbMix} onChange={(e)=> setReverbMix(parseFloat(e.target.value))} className="w-full" />
+              <span className="w-14 text-right font-mono">{reverbMix > 0 ? `${Math.round(reverbMix * 100)}%` : 'off'}</span>
+            </div>
+            <div className="flex items-center gap-3">
+              <span className="w-16 text-neutral-300">Room</span>
+              <input type="range" min={0.5} max={5} step={0.1} value={reverbSeconds} onChange={(e)=> setReverbSeconds(parseFloat(e.target.value))} className="w-full" disabled={reverbMix === 0} />
+              <span className="w-14 text-right font-mono">{reverbSeconds.toFixed(1)}s</span>
+            </div>
+            <span className="text-xs text-neutral-400">A soft limiter after the reverb keeps many latched voices from clipping.</span>
+          </div>
+        </div>
+
+        {/* Drone */}
+        <div className="rounded-2xl bg-neutral-900 p-4 space-y-3">
+          <div className="flex flex-wrap items-center gap-4">
+            <h2 className="font-semibold">Drone (dem)</h2>
+            <button onClick={() => (droneOn ? stopDrone() : startDrone())}
+                    className={`px-3 py-1 rounded-md ${droneOn ? 'bg-amber-600 hover:bg-amber-500' : 'bg-neutral-800 hover:bg-neutral-700'}`}>
+              {droneOn ? 'Stop drone' : 'Start drone'}
+            </button>
+            <span className="text-xs text-neutral-400">
+              Step <span className="font-mono">{droneStep}</span>{dronePerde ? ` • ${dronePerde.name}` : ''} • <span className="font-mono">{droneFreq.toFixed(2)} Hz</span>
+            </span>
+          </div>
+          <div className="flex flex-wrap items-center gap-4 text-sm">
+            <label className="flex items-center gap-2">Hold
+              <select className="bg-neutral-800 rounded px-2 py-1" value={droneSource}
+                      onChange={(e) => setDroneSource(e.target.value as 'durak' | 'guclu' | 'koma')}>
+                <option value="durak">Durak</option>
+                <option value="guclu">Güçlü (top of Keyboard 1)</option>
+                <option value="koma">Koma step…</option>
+              </select>
+            </label>
+            {droneSource === 'koma' && (
+              <label className="flex items-center gap-2">Koma
+                <input type="number" className="w-20 bg-neutral-800 rounded px-2 py-1" value={droneKoma} min={-53} max={106}
+                       onChange={(e) => { const v = parseInt(e.target.value, 10); if (Number.isFinite(v)) setDroneKoma(v); }} />
+              </label>
             )}
+            <label className="flex items-center gap-2">Octave
+              <select className="bg-neutral-800 rounded px-2 py-1" value={droneOctave} onChange={(e) => setDroneOctave(parseInt(e.target.value, 10))}>
+                {[-2, -1, 0, 1].map(o => <option key={o} value={o}>{o > 0 ? `+${o}` : o}</option>)}
+              </select>
+            </label>
+            <label className="flex items-center gap-2">Timbre
+              <select className="bg-neutral-800 rounded px-2 py-1" value={droneInstrument}
+                      onChange={(e) => { const v = e.target.value as InstrumentId; setDroneInstrument(v); if (droneOn) startDrone(v); }}>
+                {DRONE_INSTRUMENTS.map(i => <option key={i.id} value={i.id}>{i.label}</option>)}
+              </select>
+            </label>
+            <div className="flex items-center gap-3 min-w-[14rem]">
+              <span className="text-neutral-300">Level</span>
+              <input type="range" min={0} max={0.4} step={0.01} value={droneLevel} onChange={(e) => setDroneLevel(parseFloat(e.target.value))} className="w-full" />
+              <span className="w-10 text-right font-mono">{droneLevel.toFixed(2)}</span>
+            </div>
+          </div>
+          <p className="text-xs text-neutral-400">
+            Koma steps count from the durak in 53-koma and are remapped to the active division. The drone follows the starting pitch,
+            keeps sounding through All Off and always plays in the browser, even while MIDI output is on.
+          </p>
+        </div>
 
-            <span className="text-neutral-400 text-xs">Start = highest highlighted on Keyboard 1 → <span className="font-mono">{startStep2}</span></span>
-          </div>            
-
-          {/* Keyboard 2 surface */}
-          <KomaKeyboard
-            startStep={renderStart2}
-            endStep={renderEnd2}
-            cesniAbsSteps={cesni2AbsSet}
-            showTet={showTet}
-            showJust={showJust}
-            tetData={tetDataKb2}
-            justCells={justCellsKb2}
-            onPointerDown={onPointerDown}
-            onPointerEnter={onPointerEnter}
-            onPointerUp={onPointerUp}
-            onPointerCancel={onPointerCancel}
-            glowCounts={glowCounts}
-            fadeInfo={fadeInfo}
-            isTouch={isTouch}
-           />
+        {/* Tuning systems */}
+        <div className="rounded-2xl bg-neutral-900 p-4 space-y-3">
+          <div className="flex flex-wrap items-center gap-4">
+            <h2 className="font-semibold">Tuning A/B</h2>
+            {(['A', 'B'] as const).map(side => (
+              <label key={side} className="flex items-center gap-2 text-sm">{side}
+                <select className="bg-neutral-800 rounded px-2 py-1" value={side === 'A' ? tuningA : tuningB}
+                        onChange={(e) => chooseTuning(side, e.target.value as TuningId)}>
+                  {TUNING_SYSTEMS.map(t => <option key={t.id} value={t.id}>{t.id === 'equal' ? `${edo}-TET (keyboard grid)` : t.label}</option>)}
+                </select>
+              </label>
+            ))}
+            <div className="flex gap-1">
+              {(['A', 'B'] as const).map(side => (
+                <button key={side} onClick={() => switchTuningSide(side)}
+                        className={`px-3 py-1 rounded-md ${tuningSide === side ? 'bg-amber-600 hover:bg-amber-500' : 'bg-neutral-800 hover:bg-neutral-700'}`}>
+                  Play {side}
+                </button>
+              ))}
+            </div>
+          </div>
+          {(tuningA === 'custom' || tuningB === 'custom') && (
+            <div className="space-y-1 text-sm">
+              <label className="flex items-center gap-2">Cents table
+                <input className="flex-1 bg-neutral-800 rounded px-2 py-1 font-mono" value={centsTableStr}
+                       placeholder="0 90.2 113.7 203.9 294.1 …" onChange={(e) => changeCentsTable(e.target.value)} />
+              </label>
+              {centsTable.error ? <p className="text-xs text-red-400">{centsTable.error}</p>
+                : !centsTable.cents.length && <p className="text-xs text-neutral-400">One octave above step 0, in cents; until it has values the custom side plays the keyboard grid.</p>}
+            </div>
+          )}
+          {tuningRows.length > 0 && (
+            <table className="text-xs font-mono text-neutral-300">
+              <thead>
+                <tr className="text-neutral-500">
+                  <th className="pr-4 text-right">Step</th>
+                  <th className="pr-4 text-left font-sans">Perde</th>
+                  {comparedTunings.map(t => (
+                    <th key={t.id} className={`pr-4 text-right font-sans ${t.id === tuningA || t.id === tuningB ? 'text-neutral-200' : ''}`}>
+                      {t.id === 'equal' ? `${edo}-TET` : t.label.replace(/ Pythagorean| MOS|…/, '')}
+                      {t.id === tuningA && ' (A)'}{t.id === tuningB && ' (B)'}
+                    </th>
+                  ))}
+                  <th className="text-right font-sans">B − A</th>
+                </tr>
+              </thead>
+              <tbody>
+                {tuningRows.map(r => {
+                  const centsOf = (id: TuningId) => r.cents[comparedTunings.findIndex(t => t.id === id)] ?? r.cents[0];
+                  return (
+                    <tr key={r.step}>
+                      <td className="pr-4 text-right">{r.step}</td>
+                      <td className="pr-4 font-sans">{perdeLabelForStep(r.step, transpose12, edo) ?? '—'}</td>
+                      {r.cents.map((c, i) => (
+                        <td key={comparedTunings[i].id} className="pr-4 text-right">
+                          {c.toFixed(1)}{i > 0 && <span className="text-neutral-500"> ({fmtRemapError(c - r.cents[0])})</span>}
+                        </td>
+                      ))}
+                      <td className="text-right">{fmtRemapError(centsOf(tuningB) - centsOf(tuningA))}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+          <p className="text-xs text-neutral-400">
+            Rows are the degrees of both keyboards' çeşnis, in cents above step 0; brackets give the difference from the equal grid.
+            Switching sides retunes held notes in place, latched ones included. AEU perdes follow the transposition; Yarman and cents tables count from step 0.
+          </p>
         </div>
 
-        {/* KEYBOARD 1 container (below) */}
-        <div className="rounded-2xl bg-neutral-900 p-4 shadow-inner space-y-4">
-          {/* Big selector as the title */}
+        {/* Interval trainer */}
+        <div className="rounded-2xl bg-neutral-900 p-4 space-y-3">
           <div className="flex flex-wrap items-center gap-4">
-            <select
-              className="bg-neutral-800/80 hover:bg-neutral-800 rounded-lg px-3 py-2 text-lg sm:text-2xl font-bold tracking-tight"
-              value={cesniId}
-              onMouseDown={() => (selectOpenRef.current = true)}
-              onChange={handleCesni1Change}
-              onBlur={() => (selectOpenRef.current = false)}
-              onKeyDown={(e) => { if (e.key === 'Escape' || e.key === 'Enter') selectOpenRef.current = false; }}
-              title="Çeşni (Keyboard 1)"
-            >
-              {CESNI_OPTIONS.map((opt)=> (<option key={opt.id} value={opt.id}>{opt.label}</option>))}
-            </select>
+            <h2 className="font-semibold">Interval trainer</h2>
+            <label className="flex items-center gap-2 text-sm">Level
+              <select className="bg-neutral-800 rounded px-2 py-1" value={trainerLevel}
+                      onChange={(e) => { setTrainerLevel(e.target.value as TrainerLevel); setTrainerQ(null); setTrainerResult(null); }}>
+                {TRAINER_LEVELS.map(l => <option key={l.id} value={l.id}>{l.label}</option>)}
+              </select>
+            </label>
+            <label className="flex items-center gap-2 text-sm">Play together
+              <input type="checkbox" checked={trainerTogether} onChange={(e) => setTrainerTogether(e.target.checked)} />
+            </label>
+            <button onClick={newTrainerQuestion} className="px-3 py-1 rounded-md bg-neutral-800 hover:bg-neutral-700">
+              {trainerQ && !trainerResult ? 'Skip' : 'New question'}
+            </button>
+            <button onClick={() => trainerQ && playTrainerTones(trainerQ)} disabled={!trainerQ}
+                    className="px-3 py-1 rounded-md bg-neutral-800 hover:bg-neutral-700 disabled:opacity-50">Play again</button>
+          </div>
 
-            {cesniId === 'custom' && (
-              <span className="flex items-center gap-2">
-                <input
-                  className="bg-neutral-800 rounded px-2 py-2 w-52 text-sm"
-                  placeholder="intervals e.g. 8 5 9 9"
-                  value={customStepsStr}
-                  onChange={(e)=> setCustomStepsStr(e.target.value)}
-                />
-                {customParsed.error ? (
-                  <span className="text-red-400 text-xs">{customParsed.error}</span>
-                ) : (
-                  <span className="text-neutral-400 text-xs">Intervals in koma, use space to separate</span>
+          {trainerMsg && <p className="text-xs text-red-400">{trainerMsg}</p>}
+
+          {trainerQ && (
+            <>
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                {trainerAnswerTypes.map(t => (
+                  <button key={t.id} onClick={() => answerTrainer(checkNameAnswer(trainerQ, t.id))} disabled={!!trainerResult}
+                          className="px-3 py-1 rounded-md bg-neutral-800 hover:bg-neutral-700 disabled:opacity-50">
+                    {t.name} <span className="text-neutral-400 font-mono">{t.koma}</span>
+                  </button>
+                ))}
+                {!trainerResult && <span className="text-xs text-neutral-400">…or tap the upper key (the lower one is step {trainerQ.low}).</span>}
+              </div>
+              {trainerResult && (
+                <p className={`text-sm ${trainerResult.correct ? 'text-green-400' : 'text-red-400'}`}>
+                  {trainerResult.correct ? 'Right' : 'Not quite'}: {trainerResult.answer}
+                  {trainerResult.missKoma !== 0 && ` – ${Math.abs(trainerResult.missKoma)} koma too ${trainerResult.missKoma > 0 ? 'wide' : 'narrow'}`}.
+                  {' '}It was {INTERVAL_TYPES.find(t => t.id === trainerQ.typeId)?.name} ({trainerQ.koma} koma, steps {trainerQ.low} → {trainerQ.high}).
+                </p>
+              )}
+            </>
+          )}
+
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-neutral-400">
+            {INTERVAL_TYPES.filter(t => trainerStats[t.id]?.asked).map(t => {
+              const st = trainerStats[t.id];
+              return (
+                <span key={t.id}>
+                  {t.name}: <span className="font-mono text-neutral-200">{st.correct}/{st.asked}</span> ({Math.round((100 * st.correct) / st.asked)}%, avg miss {(st.missSum / st.asked).toFixed(1)} koma)
+                </span>
+              );
+            })}
+            {Object.keys(trainerStats).length > 0
+              ? <button onClick={resetTrainerStats} className="px-2 py-0.5 rounded-md bg-neutral-800 hover:bg-neutral-700">Reset stats</button>
+              : <span>No answers yet – accuracy per interval is kept in this browser.</span>}
+          </div>
+        </div>
+
+        {/* Çeşni drill */}
+        <CesniDrillPanel
+          candidates={BUILTIN_CESNIS}
+          playKomaSequence={(komas) => playTones(komas.map(k => remapKomaStep(k, edo)), 380, 340)}
+        />
+
+        {/* Dizi composer */}
+        <div className="rounded-2xl bg-neutral-900 p-4 space-y-3">
+          <div className="flex flex-wrap items-center gap-4">
+            <h2 className="font-semibold">Dizi composer</h2>
+            <label className="flex items-center gap-2 text-sm">Use composed dizi
+              <input type="checkbox" checked={diziOn} onChange={(e) => { allOff(); setDiziOn(e.target.checked); }} />
+            </label>
+            <label className="flex items-center gap-2 text-sm">Separate descending form
+              <input type="checkbox" checked={diziStack.descending !== null} onChange={(e) => setSeparateDescending(e.target.checked)} />
+            </label>
+            {diziStack.descending !== null && (
+              <div className="flex rounded-md overflow-hidden text-sm">
+                {(['ascending', 'descending'] as DiziDirection[]).map(d => (
+                  <button key={d} onClick={() => { allOff(); setDiziDir(d); }}
+                          className={`px-3 py-1 ${diziDir === d ? 'bg-neutral-600' : 'bg-neutral-800 hover:bg-neutral-700'}`}>
+                    {d === 'ascending' ? '↑ Ascending' : '↓ Descending'}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {diziOn && (
+            <>
+              <div className="space-y-2 text-sm">
+                {diziSegments.map((seg, i) => (
+                  <div key={i} className="flex flex-wrap items-center gap-2">
+                    <span className="w-6 text-neutral-400">{i + 1}.</span>
+                    <select
+                      className="bg-neutral-800 rounded px-2 py-1"
+                      value={seg.cesniId}
+                      onMouseDown={() => (selectOpenRef.current = true)}
+                      onChange={(e) => { patchDiziSegment(i, { cesniId: e.target.value }); selectOpenRef.current = false; e.target.blur(); }}
+                      onBlur={() => (selectOpenRef.current = false)}
+                    >
+                      {!recipeFor(seg.cesniId) && <option value={seg.cesniId}>(missing)</option>}
+                      {composerChoices.map(o => (<option key={o.id} value={o.id}>{o.label}</option>))}
+                    </select>
+                    <label className="flex items-center gap-1">anchor
+                      <input
+                        type="number" step={1}
+                        className="w-20 bg-neutral-800 rounded px-2 py-1"
+                        value={seg.anchor}
+                        onChange={(e) => { const n = parseInt(e.target.value, 10); if (Number.isFinite(n)) patchDiziSegment(i, { anchor: n }); }}
+                        title="53-koma step of the segment's first degree; negative goes below the durak"
+                      />
+                    </label>
+                    <select
+                      className="bg-neutral-800 rounded px-2 py-1"
+                      value=""
+                      onMouseDown={() => (selectOpenRef.current = true)}
+                      onChange={(e) => { if (e.target.value !== '') patchDiziSegment(i, { anchor: Number(e.target.value) }); selectOpenRef.current = false; e.target.blur(); }}
+                      onBlur={() => (selectOpenRef.current = false)}
+                      title="Join on a degree of another segment"
+                    >
+                      <option value="">join on…</option>
+                      {jointChoicesFor(i).map(c => (<option key={c.k} value={c.k}>{c.label}</option>))}
+                    </select>
+                    <span className="text-xs text-neutral-400">{perdeLabelForStep(remapKomaStep(seg.anchor, edo), transpose12, edo) ?? ''}</span>
+                    <span className="text-xs font-mono text-neutral-500">{rowLegends(keyLayout, i, browserKeyMap).join(' ')}</span>
+                    <button onClick={() => moveDiziSegment(i, -1)} disabled={i === 0} className="px-2 py-1 rounded-md bg-neutral-800 hover:bg-neutral-700 disabled:opacity-50">↑</button>
+                    <button onClick={() => moveDiziSegment(i, 1)} disabled={i === diziSegments.length - 1} className="px-2 py-1 rounded-md bg-neutral-800 hover:bg-neutral-700 disabled:opacity-50">↓</button>
+                    <button onClick={() => removeDiziSegment(i)} className="px-2 py-1 rounded-md bg-neutral-800 hover:bg-red-700">✕</button>
+                  </div>
+                ))}
+              </div>
+              <div className="flex flex-wrap items-center gap-3 text-sm">
+                <button onClick={addDiziSegment} disabled={diziSegments.length >= MAX_DIZI_SEGMENTS} className="px-3 py-1 rounded-md bg-neutral-800 hover:bg-neutral-700 disabled:opacity-50">Add segment</button>
+                <button onClick={diziFromKeyboards} className="px-3 py-1 rounded-md bg-neutral-800 hover:bg-neutral-700">From Keyboard 1 + 2</button>
+                <button onClick={diziFromMakam} disabled={!makam} className="px-3 py-1 rounded-md bg-neutral-800 hover:bg-neutral-700 disabled:opacity-50">From makam</button>
+                <span className="text-xs text-neutral-400">
+                  Anchors are 53-koma steps from the durak (negative = genişleme below it). Each segment gets its own row and hotkeys.
+                </span>
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* KEYBOARD 2 container (on top) */}
+        {!diziOn && (
+          <div className="rounded-2xl bg-neutral-900 p-4 shadow-inner space-y-4">
+            {/* Big selector as the title */}
+            <div className="flex flex-wrap items-center gap-4">
+              <select
+                className="bg-neutral-800/80 hover:bg-neutral-800 rounded-lg px-3 py-2 text-lg sm:text-2xl font-bold tracking-tight"
+                value={cesni2Id}
+                onMouseDown={() => (selectOpenRef.current = true)}
+                onChange={handleCesni2Change}
+                onBlur={() => (selectOpenRef.current = false)}
+                onKeyDown={(e) => { if (e.key === 'Escape' || e.key === 'Enter') selectOpenRef.current = false; }}
+                title="Çeşni (Keyboard 2)"
+              >
+                {CESNI_OPTIONS.map((opt)=> (<option key={opt.id} value={opt.id}>{opt.label}</option>))}
+                {userCesnis.length > 0 && (
+                  <optgroup label="My çeşnis">
+                    {userCesnis.map(u => (<option key={u.id} value={u.id}>{u.name}</option>))}
+                  </optgroup>
                 )}
-              </span>
+              </select>
+
+              {cesni2Id === 'custom' && (
+                <span className="flex items-center gap-2">
+                  <input
+                    className="bg-neutral-800 rounded px-2 py-2 w-52 text-sm"
+                    placeholder="e.g. B T T or 4 9 9"
+                    value={custom2StepsStr}
+                    onChange={(e)=> setCustom2StepsStr(e.target.value)}
+                  />
+                  {custom2Parsed.error ? (
+                    <span className="text-red-400 text-xs">{custom2Parsed.error}</span>
+                  ) : custom2Closest ? (
+                    <span className="text-neutral-400 text-xs">Closest: <span className="text-neutral-200">{custom2Closest}</span></span>
+                  ) : (
+                    <span className="text-neutral-400 text-xs">Koma counts, K B S M T A, cents (204c) or ratios (9/8)</span>
+                  )}
+                  {!custom2Parsed.error && custom2Parsed.snaps.length > 0 && (
+                    <span className="text-neutral-400 text-xs">Snapped: <span className="font-mono">{custom2Parsed.snaps.join(', ')}</span></span>
+                  )}
+                  {!custom2Parsed.error && custom2Parsed.steps.length > 1 && edo === STEPS && formatStepList(custom2Parsed.steps) !== custom2StepsStr.trim() && (
+                    <span className="text-neutral-400 text-xs">= <span className="font-mono">{formatStepList(custom2Parsed.steps)}</span></span>
+                  )}
+                  {!custom2Parsed.error && custom2Parsed.steps.length > 1 && edo === STEPS && (
+                    <button onClick={() => setSaveDraft({ kb: 2, name: '', notes: '' })} className="px-2 py-1 rounded-md bg-neutral-800 hover:bg-neutral-700 text-xs">Save…</button>
+                  )}
+                </span>
+              )}
+
+              {edo === STEPS && cesni2Id !== 'custom' && cesni2Id !== 'none' && (
+                <span className="text-neutral-400 text-xs font-mono" title={INTERVAL_SYMBOL_LEGEND}>{formatStepList(findCesni(cesni2Id)?.steps ?? [])}</span>
+              )}
+              {edo !== STEPS && cesni2Id !== 'custom' && cesni2Id !== 'none' && (
+                <span className="text-neutral-400 text-xs">Remapped from 53: <span className="font-mono">{cesni2Remap.errors.map(fmtRemapError).join(' ')}</span></span>
+              )}
+
+              <span className="text-neutral-400 text-xs">Start = highest highlighted on Keyboard 1 → <span className="font-mono">{startStep2}</span></span>
+            </div>            
+
+            {/* Keyboard 2 surface (the hex grid below covers both çeşnis) */}
+            {surface === 'linear' && (
+              <KomaKeyboard
+                startStep={renderStart2}
+                endStep={renderEnd2}
+                centsPerStep={centsPerStep}
+                cesniAbsSteps={cesni2AbsSet}
+                showTet={showTet}
+                showJust={showJust}
+                showPerde={showPerde}
+                tetData={tetDataKb2}
+                justCells={justCellsKb2}
+                perdeData={perdeDataKb2}
+                onPointerDown={onPointerDown}
+                onPointerEnter={onPointerEnter}
+                onPointerUp={onPointerUp}
+                onPointerCancel={onPointerCancel}
+                onGesture={glideOn ? onGesture : undefined}
+                glowCounts={glowCounts}
+                fadeInfo={fadeInfo}
+                isTouch={isTouch}
+                durakStep={durakStep}
+                gucluStep={gucluStep}
+                keyLegends={isTouch ? undefined : keyLegendsByStep}
+               />
             )}
           </div>
+        )}
+
+        {/* KEYBOARD 1 container (below) */}
+        <div className="rounded-2xl bg-neutral-900 p-4 shadow-inner space-y-4">
+          {/* Big selector as the title */}
+          {!diziOn && (
+            <div className="flex flex-wrap items-center gap-4">
+              <select
+                className="bg-neutral-800/80 hover:bg-neutral-800 rounded-lg px-3 py-2 text-lg sm:text-2xl font-bold tracking-tight"
+                value={cesniId}
+                onMouseDown={() => (selectOpenRef.current = true)}
+                onChange={handleCesni1Change}
+                onBlur={() => (selectOpenRef.current = false)}
+                onKeyDown={(e) => { if (e.key === 'Escape' || e.key === 'Enter') selectOpenRef.current = false; }}
+                title="Çeşni (Keyboard 1)"
+              >
+                {CESNI_OPTIONS.map((opt)=> (<option key={opt.id} value={opt.id}>{opt.label}</option>))}
+                {userCesnis.length > 0 && (
+                  <optgroup label="My çeşnis">
+                    {userCesnis.map(u => (<option key={u.id} value={u.id}>{u.name}</option>))}
+                  </optgroup>
+                )}
+              </select>
+
+              {cesniId === 'custom' && (
+                <span className="flex items-center gap-2">
+                  <input
+                    className="bg-neutral-800 rounded px-2 py-2 w-52 text-sm"
+                    placeholder="e.g. M S T T or 8 5 9 9"
+                    value={customStepsStr}
+                    onChange={(e)=> setCustomStepsStr(e.target.value)}
+                  />
+                  {customParsed.error ? (
+                    <span className="text-red-400 text-xs">{customParsed.error}</span>
+                  ) : customClosest ? (
+                    <span className="text-neutral-400 text-xs">Closest: <span className="text-neutral-200">{customClosest}</span></span>
+                  ) : (
+                    <span className="text-neutral-400 text-xs">Koma counts, K B S M T A, cents (204c) or ratios (9/8)</span>
+                  )}
+                  {!customParsed.error && customParsed.snaps.length > 0 && (
+                    <span className="text-neutral-400 text-xs">Snapped: <span className="font-mono">{customParsed.snaps.join(', ')}</span></span>
+                  )}
+                  {!customParsed.error && customParsed.steps.length > 1 && edo === STEPS && formatStepList(customParsed.steps) !== customStepsStr.trim() && (
+                    <span className="text-neutral-400 text-xs">= <span className="font-mono">{formatStepList(customParsed.steps)}</span></span>
+                  )}
+                  {!customParsed.error && customParsed.steps.length > 1 && edo === STEPS && (
+                    <button onClick={() => setSaveDraft({ kb: 1, name: '', notes: '' })} className="px-2 py-1 rounded-md bg-neutral-800 hover:bg-neutral-700 text-xs">Save…</button>
+                  )}
+                </span>
+              )}
+
+              {edo === STEPS && cesniId !== 'custom' && cesniId !== 'none' && (
+                <span className="text-neutral-400 text-xs font-mono" title={INTERVAL_SYMBOL_LEGEND}>{formatStepList(findCesni(cesniId)?.steps ?? [])}</span>
+              )}
+              {edo !== STEPS && cesniId !== 'custom' && cesniId !== 'none' && (
+                <span className="text-neutral-400 text-xs">Remapped from 53: <span className="font-mono">{cesniRemap.errors.map(fmtRemapError).join(' ')}</span></span>
+              )}
+            </div>
+          )}
 
           {/* Base / activity strip */}
           <div className="flex flex-wrap items-center justify-between text-sm text-neutral-300 gap-2">
@@ -939,39 +2401,350 @@ export default function FiftyThreeTETKeyboard() {
               <span className="font-mono">{fmtHz(baseFreq)} Hz</span>
             </div>
             <div className="flex items-center gap-4">
-              <span>{activeHz !== null ? (<span>Active: <span className="font-mono">{fmtHz(activeHz)} Hz</span>{activeStep!==null?` (step ${activeStep})`:``}</span>) : (<span className="text-neutral-500">Active: —</span>)}</span>
+              <span>{activeHz !== null ? (<span>Active: <span className="font-mono">{fmtHz(activeHz)} Hz</span>{activeStep!==null?` (step ${activeStep})`:``}{activePerde && <span className="ml-2 text-sky-300">{activePerde}</span>}</span>) : (<span className="text-neutral-500">Active: —</span>)}</span>
               <span className="text-neutral-400">Poly: {activeVoices.current.size + activeKeys.current.size + latchedVoices.current.size}</span>
             </div>
           </div>
 
           {/* Keyboard 1 surface */}
-          <KomaKeyboard
-            startStep={startStep1}
-            endStep={endStep1}
-            cesniAbsSteps={cesniSet}
-            showTet={showTet}
-            showJust={showJust}
-            tetData={tetDataKb1}
-            justCells={justCellsKb1}
-            onPointerDown={onPointerDown}
-            onPointerEnter={onPointerEnter}
-            onPointerUp={onPointerUp}
-            onPointerCancel={onPointerCancel}
-            glowCounts={glowCounts}
-            fadeInfo={fadeInfo}
-            tetRowRef={tetRowRef}
-            isTouch={isTouch}
-            tetTip={tetTip}
-            onTetPointerDown={onTetPointerDown}
-            onTetPointerMove={onTetPointerMove}
-            onTetPointerEnd={onTetPointerEnd}
-          />
+          {surface === 'hex' ? (
+            <HexKeyboard
+              edo={edo}
+              settings={hexSettings}
+              cesniSteps={hexCesniSteps}
+              durakStep={durakStep ?? 0}
+              tetSteps={hexMarkers.tetSteps}
+              justSteps={hexMarkers.justSteps}
+              labelFor={hexLabel}
+              titleFor={(step) => `Step ${step}${perdeLabelForStep(step, transpose12, edo) ? ` • ${perdeLabelForStep(step, transpose12, edo)}` : ''}`}
+              onPointerDown={onPointerDown}
+              onPointerEnter={onPointerEnter}
+              onPointerUp={onPointerUp}
+              onPointerCancel={onPointerCancel}
+              glowCounts={glowCounts}
+            />
+          ) : diziOn ? (
+            diziRowViews.slice().reverse().map(r => (
+              <KomaKeyboard
+                key={r.index}
+                title={`${r.index + 1}. ${findCesni(r.cesniId)?.label ?? r.cesniId}${rowLegends(keyLayout, r.index, browserKeyMap).length ? ` — keys ${rowLegends(keyLayout, r.index, browserKeyMap).slice(0, r.steps.length).join(' ')}` : ''}`}
+                startStep={r.start}
+                endStep={r.end}
+                centsPerStep={centsPerStep}
+                cesniAbsSteps={r.stepSet}
+                showTet={showTet}
+                showJust={showJust}
+                showPerde={showPerde}
+                tetData={r.tetData}
+                justCells={r.justCells}
+                perdeData={r.perdeData}
+                onPointerDown={onPointerDown}
+                onPointerEnter={onPointerEnter}
+                onPointerUp={onPointerUp}
+                onPointerCancel={onPointerCancel}
+                onGesture={glideOn ? onGesture : undefined}
+                glowCounts={glowCounts}
+                fadeInfo={fadeInfo}
+                isTouch={isTouch}
+                durakStep={durakStep}
+                gucluStep={gucluStep}
+                keyLegends={isTouch ? undefined : keyLegendsByStep}
+              />
+            ))
+          ) : (
+            <KomaKeyboard
+              startStep={startStep1}
+              endStep={endStep1}
+              centsPerStep={centsPerStep}
+              cesniAbsSteps={cesniSet}
+              showTet={showTet}
+              showJust={showJust}
+              showPerde={showPerde}
+              tetData={tetDataKb1}
+              justCells={justCellsKb1}
+              perdeData={perdeDataKb1}
+              onPointerDown={onPointerDown}
+              onPointerEnter={onPointerEnter}
+              onPointerUp={onPointerUp}
+              onPointerCancel={onPointerCancel}
+              onGesture={glideOn ? onGesture : undefined}
+              glowCounts={glowCounts}
+              fadeInfo={fadeInfo}
+              tetRowRef={tetRowRef}
+              isTouch={isTouch}
+              tetTip={tetTip}
+              onTetPointerDown={onTetPointerDown}
+              onTetPointerMove={onTetPointerMove}
+              onTetPointerEnd={onTetPointerEnd}
+              durakStep={durakStep}
+              gucluStep={gucluStep}
+              keyLegends={isTouch ? undefined : keyLegendsByStep}
+            />
+          )}
 
           <p className="text-xs text-neutral-400 -mt-2">
-            Markers snap to the nearest koma key. <span style={{color:'#E20074'}}>Magenta</span> = 5-limit Just; <span className="text-green-400">Green</span> = 12-TET semitones.
+            Markers snap to the nearest koma key. <span style={{color:'#E20074'}}>Magenta</span> = just ratios; <span className="text-green-400">Green</span> = 12-TET semitones; <span className="text-sky-400">Blue</span> = perdes with AEU spelling (Yegâh = D4).
+            {surface === 'hex' && <> On the hex grid the çeşnis' other octaves are drawn paler, the durak has a dark outline and markers off the çeşni show as dots.</>}
           </p>
         </div>
 
+        {/* Staff notation */}
+        <StaffPanel
+          steps={midiDegreeSteps}
+          soundingSteps={new Set(glowCounts.current.keys())}
+          activeStep={activeStep}
+          transpose12={transpose12}
+          edo={edo}
+        />
+
+        {/* Pitch analysis */}
+        <PitchAnalysisPanel baseFreq={baseFreq} stepsPerOctave={edo} degreeSteps={midiDegreeSteps} getCtx={getCtx} />
+
+        {/* SymbTr score */}
+        <div className="rounded-2xl bg-neutral-900 p-4 space-y-3">
+          <h2 className="font-semibold">Score (SymbTr)</h2>
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            <label className="flex items-center gap-2">Import .txt
+              <input
+                type="file" accept=".txt,text/plain"
+                className="text-xs"
+                onChange={async (e) => { const f = e.target.files?.[0]; if (f) loadScore(await f.text(), f.name); e.target.value = ''; }}
+              />
+            </label>
+            {score && <button onClick={closeScore} className="px-3 py-1 rounded-md bg-neutral-800 hover:bg-neutral-700">Close score</button>}
+            {scoreMsg && <span className="text-xs text-red-400">{scoreMsg}</span>}
+          </div>
+
+          {score && (
+            <>
+              <div className="text-xs text-neutral-400">
+                <span className="text-neutral-200">{scoreName}</span> • {score.notes.length} notes • {(score.durationMs / 1000).toFixed(1)} s
+                {score.bpm !== null && <> • ♩ = {Math.round(score.bpm)}</>} • Range {scoreRangeLabel}
+              </div>
+              <div className="flex flex-wrap items-center gap-3 text-sm">
+                <button onClick={playScore} disabled={scoreState === 'playing'} className="px-3 py-1 rounded-md bg-green-700 hover:bg-green-600 disabled:opacity-50">▶ {scoreState === 'paused' ? 'Resume' : 'Play'}</button>
+                <button onClick={pauseScore} disabled={scoreState !== 'playing'} className="px-3 py-1 rounded-md bg-neutral-800 hover:bg-neutral-700 disabled:opacity-50">❚❚ Pause</button>
+                <button onClick={stopScore} disabled={scoreState === 'idle'} className="px-3 py-1 rounded-md bg-neutral-800 hover:bg-neutral-700 disabled:opacity-50">■ Stop</button>
+                <label className="flex items-center gap-2">Speed
+                  <input type="range" min={0.25} max={1.5} step={0.05} value={scoreSpeed} onChange={(e) => setScoreSpeed(parseFloat(e.target.value))} />
+                  <span className="font-mono text-xs">{Math.round(scoreSpeed * 100)}%{score.bpm !== null ? ` (♩ = ${Math.round(score.bpm * scoreSpeed)})` : ''}</span>
+                </label>
+              </div>
+              <div className="flex flex-wrap items-center gap-3 text-sm">
+                <label className="flex items-center gap-2">Loop
+                  <input type="checkbox" checked={scoreLoop} onChange={(e) => setScoreLoop(e.target.checked)} />
+                </label>
+                <label className="flex items-center gap-2">notes
+                  <input type="number" min={1} max={score.notes.length} value={loopFrom}
+                         onChange={(e) => setLoopFrom(Math.max(1, Math.min(score.notes.length, parseInt(e.target.value, 10) || 1)))}
+                         className="w-16 bg-neutral-800 rounded px-2 py-1" />
+                  –
+                  <input type="number" min={1} max={score.notes.length} value={loopTo}
+                         onChange={(e) => setLoopTo(Math.max(1, Math.min(score.notes.length, parseInt(e.target.value, 10) || 1)))}
+                         className="w-16 bg-neutral-800 rounded px-2 py-1" />
+                </label>
+                <label className="flex items-center gap-2">Follow on keyboards
+                  <input type="checkbox" checked={scoreFollow} onChange={(e) => setScoreFollow(e.target.checked)} />
+                </label>
+              </div>
+              <div className="text-xs text-neutral-400">
+                {scoreNowNote && scoreNow !== null ? (
+                  <span>
+                    Note {scoreNow + 1}/{score.notes.length} (row {scoreNowNote.row}):{' '}
+                    <span className="text-neutral-200">{scoreNowNote.koma === null ? 'rest' : (perdeAt(scoreNowNote.koma)?.name ?? `koma ${scoreNowNote.koma}`)}</span>
+                    {scoreNowNote.lyric && <span className="ml-2 italic">{scoreNowNote.lyric}</span>}
+                  </span>
+                ) : (
+                  <span>Notes play through the current voice settings; keys light up as the piece plays.</span>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* Recorder */}
+        <div className="rounded-2xl bg-neutral-900 p-4 space-y-3">
+          <h2 className="font-semibold">Recorder</h2>
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            <button onClick={startRecording} disabled={recState === 'recording'} className="px-3 py-1 rounded-md bg-red-700 hover:bg-red-600 disabled:opacity-50">● Record</button>
+            <button onClick={stopTransport} disabled={recState === 'idle'} className="px-3 py-1 rounded-md bg-neutral-800 hover:bg-neutral-700 disabled:opacity-50">■ Stop</button>
+            <button onClick={playRecording} disabled={recState !== 'idle' || recording.length === 0} className="px-3 py-1 rounded-md bg-green-700 hover:bg-green-600 disabled:opacity-50">▶ Play</button>
+            <span className="text-xs text-neutral-400">
+              {recState === 'recording' ? 'Recording…' : `${recording.length} events, ${(eventLogDuration(recording) / 1000).toFixed(1)} s`}
+            </span>
+          </div>
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            <button onClick={exportRecordingMidi} disabled={recording.length === 0} className="px-3 py-1 rounded-md bg-neutral-800 hover:bg-neutral-700 disabled:opacity-50">Export .mid</button>
+            <button onClick={exportRecordingJson} disabled={recording.length === 0} className="px-3 py-1 rounded-md bg-neutral-800 hover:bg-neutral-700 disabled:opacity-50">Export JSON</button>
+            <label className="flex items-center gap-2">Import JSON
+              <input
+                type="file" accept=".json,application/json"
+                className="text-xs"
+                onChange={(e) => { const f = e.target.files?.[0]; if (f) importRecordingJson(f); e.target.value = ''; }}
+              />
+            </label>
+            <span className="text-xs text-neutral-400">MIDI export uses one channel per note with ±{bendRange} semitone pitch bend.</span>
+            {recorderMsg && <span className="text-xs text-neutral-400">{recorderMsg}</span>}
+          </div>
+        </div>
+
+        {/* Offline rendering */}
+        <div className="rounded-2xl bg-neutral-900 p-4 space-y-3">
+          <h2 className="font-semibold">Render to WAV</h2>
+          <div className="flex flex-wrap items-center gap-4 text-sm">
+            <label className="flex items-center gap-2">Source
+              <select
+                className="bg-neutral-800 rounded px-2 py-1"
+                value={renderSource}
+                onChange={(e) => setRenderSource((e.target as HTMLSelectElement).value as 'recording' | 'sequence')}
+              >
+                <option value="recording">Recorded phrase</option>
+                <option value="sequence">Typed steps</option>
+              </select>
+            </label>
+            <label className="flex items-center gap-2">Sample rate
+              <select
+                className="bg-neutral-800 rounded px-2 py-1"
+                value={renderRate}
+                onChange={(e) => setRenderRate(parseInt((e.target as HTMLSelectElement).value, 10))}
+              >
+                <option value={44100}>44.1 kHz</option>
+                <option value={48000}>48 kHz</option>
+              </select>
+            </label>
+            <label className="flex items-center gap-2">Bit depth
+              <select
+                className="bg-neutral-800 rounded px-2 py-1"
+                value={renderBits}
+                onChange={(e) => setRenderBits(parseInt((e.target as HTMLSelectElement).value, 10) as 16 | 24)}
+              >
+                <option value={16}>16-bit</option>
+                <option value={24}>24-bit</option>
+              </select>
+            </label>
+            <button onClick={renderWav} className="px-3 py-1 rounded-md bg-neutral-800 hover:bg-neutral-700">Render &amp; download</button>
+          </div>
+          {renderSource === 'sequence' && (
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <input
+                className="bg-neutral-800 rounded px-2 py-1 flex-1 min-w-64 font-mono"
+                placeholder="step:seconds, e.g. 0:0.5 9:0.5 r:0.25 17:1"
+                value={renderSeqStr}
+                onChange={(e) => setRenderSeqStr(e.target.value)}
+              />
+              {renderSeqParsed.error
+                ? <span className="text-red-400 text-xs">{renderSeqParsed.error}</span>
+                : <span className="text-neutral-400 text-xs">Koma steps from the base; <span className="font-mono">r</span> = rest</span>}
+            </div>
+          )}
+          {renderMsg && <p className="text-xs text-neutral-400">{renderMsg}</p>}
+        </div>
+
+        {/* User çeşni library */}
+        <div className="rounded-2xl bg-neutral-900 p-4 space-y-3">
+          <h2 className="font-semibold">My çeşnis</h2>
+          {saveDraft && (
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="text-neutral-300">Save Keyboard {saveDraft.kb} custom as</span>
+              <input
+                className="bg-neutral-800 rounded px-2 py-1 w-48"
+                placeholder="name, e.g. Uşşak (7-koma 2nd)"
+                value={saveDraft.name}
+                onChange={(e) => setSaveDraft({ ...saveDraft, name: e.target.value })}
+              />
+              <input
+                className="bg-neutral-800 rounded px-2 py-1 w-64"
+                placeholder="notes (optional)"
+                value={saveDraft.notes}
+                onChange={(e) => setSaveDraft({ ...saveDraft, notes: e.target.value })}
+              />
+              <button onClick={saveCustomToLibrary} disabled={!saveDraft.name.trim()} className="px-3 py-1 rounded-md bg-green-700 hover:bg-green-600 disabled:opacity-50">Save</button>
+              <button onClick={() => setSaveDraft(null)} className="px-3 py-1 rounded-md bg-neutral-800 hover:bg-neutral-700">Cancel</button>
+            </div>
+          )}
+          {userCesnis.length === 0 ? (
+            <p className="text-xs text-neutral-400">No saved çeşnis yet. Choose “Custom (enter steps)” on a keyboard and press Save….</p>
+          ) : (
+            <ul className="space-y-2 text-sm">
+              {userCesnis.map(u => (
+                <li key={u.id} className="flex flex-wrap items-center gap-2">
+                  <input
+                    className="bg-neutral-800 rounded px-2 py-1 w-48"
+                    value={u.name}
+                    onChange={(e) => updateUserCesni(u.id, { name: e.target.value })}
+                    onBlur={(e) => { if (!e.target.value.trim()) updateUserCesni(u.id, { name: 'Untitled' }); }}
+                    title="Rename"
+                  />
+                  <span className="font-mono text-xs text-neutral-400 w-28">{stepsToIntervals(u.steps)}</span>
+                  <input
+                    className="bg-neutral-800 rounded px-2 py-1 flex-1 min-w-40 text-xs"
+                    placeholder="notes"
+                    value={u.notes}
+                    onChange={(e) => updateUserCesni(u.id, { notes: e.target.value })}
+                  />
+                  <button onClick={() => deleteUserCesni(u.id)} className="px-2 py-1 rounded-md bg-red-600/70 hover:bg-red-600 text-xs">Delete</button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="flex flex-wrap items-center gap-4 text-sm">
+            <button onClick={exportLibrary} disabled={userCesnis.length === 0} className="px-3 py-1 rounded-md bg-neutral-800 hover:bg-neutral-700 disabled:opacity-50">Export JSON</button>
+            <label className="flex items-center gap-2">Import JSON
+              <input
+                type="file" accept=".json,application/json"
+                className="text-xs"
+                onChange={(e) => { const f = e.target.files?.[0]; if (f) importLibrary(f); e.target.value = ''; }}
+              />
+            </label>
+            {libraryMsg && <span className="text-xs text-neutral-400">{libraryMsg}</span>}
+          </div>
+        </div>
+
+        {/* Scala files */}
+        <div className="rounded-2xl bg-neutral-900 p-4 space-y-3">
+          <h2 className="font-semibold">Scala (.scl / .kbm)</h2>
+          <div className="flex flex-wrap items-center gap-4 text-sm">
+            <label className="flex items-center gap-2">Export
+              <select
+                className="bg-neutral-800 rounded px-2 py-1"
+                value={sclScope}
+                onChange={(e) => setSclScope((e.target as HTMLSelectElement).value as 'dizi' | 'octave')}
+              >
+                <option value="dizi">Current dizi ({diziOn ? 'composer rows' : 'Keyboard 1 + 2'})</option>
+                <option value="octave">Whole {edo}-step octave</option>
+              </select>
+            </label>
+            <button onClick={exportScl} className="px-3 py-1 rounded-md bg-neutral-800 hover:bg-neutral-700">Download .scl</button>
+            <button onClick={exportKbm} className="px-3 py-1 rounded-md bg-neutral-800 hover:bg-neutral-700">Download .kbm</button>
+            <label className="flex items-center gap-2">Import .scl
+              <input
+                type="file" accept=".scl,text/plain"
+                className="text-xs"
+                onChange={(e) => { const f = e.target.files?.[0]; if (f) importScl(f); e.target.value = ''; }}
+              />
+            </label>
+          </div>
+          {sclReport && (
+            <div className="text-xs space-y-1">
+              {sclReport.error ? (
+                <p className="text-red-400">{sclReport.error}</p>
+              ) : (
+                <>
+                  <p className="text-neutral-300">Imported “{sclReport.description || 'untitled'}” as custom çeşni{sclReport.dropped.length ? `; steps ${sclReport.dropped.join(', ')} did not fit on the keyboards` : ''}.</p>
+                  <table className="font-mono text-neutral-300">
+                    <thead><tr className="text-neutral-500"><th className="pr-4 text-left">#</th><th className="pr-4 text-right">Cents</th><th className="pr-4 text-right">Step</th><th className="text-right">Off</th></tr></thead>
+                    <tbody>
+                      {sclReport.rows.map((r, i) => (
+                        <tr key={i}><td className="pr-4">{i + 1}</td><td className="pr-4 text-right">{fmtCents(r.cents)}</td><td className="pr-4 text-right">{r.step}</td><td className="text-right">{fmtSigned1(r.deviation)}</td></tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+
         {/* Bottom controls */}
         <div className="flex items-center justify-between -mt-2">
           <button onClick={allOff} className="px-3 py-2 rounded-md bg-red-600/80 hover:bg-red-600 text-white text-sm">All Off</button>
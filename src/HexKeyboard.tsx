@@ -0,0 +1,67 @@
+import React from "react";
+import { type HexSettings, hexCells, hexPoints, hexViewBox } from "./hexGrid";
+
+// Isomorphic hex surface – same pointer handlers and glow state as the linear keyboards
+
+type HexKeyboardProps = {
+  edo: number;
+  settings: HexSettings;
+  cesniSteps: Set<number>;      // absolute steps of the shown çeşnis; other octaves are tinted too
+  durakStep?: number | null;
+  tetSteps: Set<number>;        // abs steps carrying a 12-TET marker (empty when hidden)
+  justSteps: Set<number>;       // abs steps carrying a just marker (empty when hidden)
+  labelFor: (step: number) => string;       // short, printed on the key
+  titleFor: (step: number) => string;       // hover text
+  onPointerDown: (step: number) => (e: React.PointerEvent) => void;
+  onPointerEnter: (step: number) => (e: React.PointerEvent) => void;
+  onPointerUp: (e: React.PointerEvent) => void;
+  onPointerCancel: (e: React.PointerEvent) => void;
+  glowCounts: React.MutableRefObject<Map<number, number>>;
+};
+
+const JUST_FILL = '#E20074';
+
+export default function HexKeyboard(props: HexKeyboardProps) {
+  const {
+    edo, settings, cesniSteps, durakStep, tetSteps, justSteps, labelFor, titleFor,
+    onPointerDown, onPointerEnter, onPointerUp, onPointerCancel, glowCounts,
+  } = props;
+
+  const cells = React.useMemo(() => hexCells(settings, edo), [settings, edo]);
+  const { width, height } = hexViewBox(settings);
+  const pitchClass = (n: number) => ((n % edo) + edo) % edo;
+  const cesniClasses = new Set(Array.from(cesniSteps, pitchClass));
+
+  return (
+    <svg viewBox={`0 0 ${width.toFixed(3)} ${height.toFixed(3)}`} className="w-full h-auto select-none"
+         style={{ touchAction: 'none' }} onContextMenu={(e) => e.preventDefault()}>
+      {cells.map(c => {
+        const inCesni = cesniSteps.has(c.step);
+        const inClass = cesniClasses.has(pitchClass(c.step));
+        const isDurak = durakStep != null && pitchClass(c.step) === pitchClass(durakStep);
+        const lit = (glowCounts.current.get(c.step) || 0) > 0;
+        // Same colours as the linear keys; the çeşni's other octaves are drawn paler
+        const fill = !inClass ? '#d4d4d4'
+          : tetSteps.has(c.step) ? '#16a34a'
+          : justSteps.has(c.step) ? JUST_FILL
+          : '#facc15';
+        return (
+          <g key={`${c.row}:${c.col}`} className="cursor-pointer"
+             onPointerDown={onPointerDown(c.step)} onPointerEnter={onPointerEnter(c.step)}
+             onPointerUp={onPointerUp} onPointerCancel={onPointerCancel}>
+            <title>{titleFor(c.step)}</title>
+            <polygon points={hexPoints(c.x, c.y)} fill={fill} fillOpacity={inClass && !inCesni ? 0.55 : 1}
+                     stroke={lit ? 'rgb(250,204,21)' : isDurak ? '#171717' : '#737373'}
+                     strokeWidth={lit ? 0.16 : isDurak ? 0.1 : 0.04} />
+            {!inClass && (tetSteps.has(c.step) || justSteps.has(c.step)) && (
+              <circle cx={c.x} cy={c.y + 0.55} r={0.12} fill={tetSteps.has(c.step) ? '#16a34a' : JUST_FILL} pointerEvents="none" />
+            )}
+            <text x={c.x} y={c.y + 0.12} textAnchor="middle" fontSize={0.42} fontWeight={700} fill="#171717" pointerEvents="none">
+              {labelFor(c.step)}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
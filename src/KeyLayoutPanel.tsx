@@ -0,0 +1,172 @@
+import { useState } from "react";
+import {
+  type KeyAction, type KeyLayout,
+  LAYOUT_PRESETS, describeAction, isPresetLayout, keyLegend, loadLayoutStore, newLayoutId, saveLayoutStore,
+} from "./keyLayout";
+
+// Layout editor – binds physical keys to degrees, koma steps or octave shifts; layouts are kept in localStorage
+
+type KeyLayoutPanelProps = {
+  layout: KeyLayout;
+  onChange: (layout: KeyLayout) => void;
+  rowCount: number;                      // degree rows on screen: Keyboards 1/2, or one per dizi segment
+  browserMap: Record<string, string>;    // the browser's legends for the user's layout
+  octaveShift: number;
+};
+
+const MAX_DEGREE = 12;
+const rowName = (row: number) => (row < 2 ? `Keyboard ${row + 1}` : `Row ${row + 1}`);
+
+export default function KeyLayoutPanel({ layout, onChange, rowCount, browserMap, octaveShift }: KeyLayoutPanelProps) {
+  const [saved, setSaved] = useState<KeyLayout[]>(() => loadLayoutStore().saved);
+  const [code, setCode] = useState<string | null>(null);
+  const [kind, setKind] = useState<KeyAction['kind']>('degree');
+  const [row, setRow] = useState(0);
+  const [degree, setDegree] = useState(0);
+  const [koma, setKoma] = useState(0);
+  const [shift, setShift] = useState(1);
+  const [name, setName] = useState(layout.name);
+
+  const isSaved = saved.some(l => l.id === layout.id);
+  const legend = (c: string) => keyLegend(c, layout, browserMap);
+
+  const commit = (next: KeyLayout, nextSaved = saved) => {
+    onChange(next);
+    saveLayoutStore({ active: next, saved: nextSaved });
+  };
+  // Presets stay as shipped; the first edit turns one into an unsaved copy
+  const edit = (bindings: Record<string, KeyAction>) => {
+    const base = isPresetLayout(layout) ? { ...layout, id: newLayoutId(), name: `${layout.name} (edited)` } : layout;
+    if (base.name !== layout.name) setName(base.name);
+    commit({ ...base, bindings });
+  };
+
+  const load = (id: string) => {
+    const next = [...LAYOUT_PRESETS, ...saved].find(l => l.id === id);
+    if (!next) return;
+    setName(next.name);
+    commit(next);
+  };
+  const assign = () => {
+    if (!code) return;
+    const action: KeyAction = kind === 'degree' ? { kind, row, degree } : kind === 'koma' ? { kind, koma } : { kind, shift };
+    edit({ ...layout.bindings, [code]: action });
+  };
+  const unbind = (c: string) => {
+    const rest = { ...layout.bindings };
+    delete rest[c];
+    edit(rest);
+  };
+  const pick = (c: string, a: KeyAction) => {
+    setCode(c);
+    setKind(a.kind);
+    if (a.kind === 'degree') { setRow(a.row); setDegree(a.degree); }
+    else if (a.kind === 'koma') setKoma(a.koma);
+    else setShift(a.shift);
+  };
+  const save = () => {
+    const trimmed = name.trim() || 'Untitled layout';
+    const next = { ...layout, id: isPresetLayout(layout) ? newLayoutId() : layout.id, name: trimmed };
+    const nextSaved = saved.some(l => l.id === next.id) ? saved.map(l => (l.id === next.id ? next : l)) : [...saved, next];
+    setSaved(nextSaved);
+    setName(trimmed);
+    commit(next, nextSaved);
+  };
+  const remove = () => {
+    const nextSaved = saved.filter(l => l.id !== layout.id);
+    setSaved(nextSaved);
+    setName(LAYOUT_PRESETS[0].name);
+    commit(LAYOUT_PRESETS[0], nextSaved);
+  };
+
+  // Note bindings first (by row, degree, koma), octave keys last
+  const order = (a: KeyAction) => (a.kind === 'degree' ? a.row * 100 + a.degree : a.kind === 'koma' ? 10_000 + a.koma : 20_000 + a.shift);
+  const bindings = Object.entries(layout.bindings).sort(([, a], [, b]) => order(a) - order(b));
+  const inList = [...LAYOUT_PRESETS, ...saved].some(l => l.id === layout.id);
+
+  return (
+    <div className="rounded-2xl bg-neutral-900 p-4 space-y-3">
+      <div className="flex flex-wrap items-center gap-4 text-sm">
+        <h2 className="font-semibold">Key layout</h2>
+        <select className="bg-neutral-800 rounded px-2 py-1" value={layout.id} onChange={(e) => load(e.target.value)}>
+          <optgroup label="Presets">
+            {LAYOUT_PRESETS.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+          </optgroup>
+          {saved.length > 0 && (
+            <optgroup label="Saved">
+              {saved.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+            </optgroup>
+          )}
+          {!inList && <option value={layout.id}>{layout.name} (unsaved)</option>}
+        </select>
+        {/* Typing a name must not play the bound keys */}
+        <input className="w-48 bg-neutral-800 rounded px-2 py-1" value={name} onChange={(e) => setName(e.target.value)} placeholder="Layout name"
+               onKeyDown={(e) => e.stopPropagation()} onKeyUp={(e) => e.stopPropagation()} />
+        <button onClick={save} className="px-3 py-1 rounded-md bg-neutral-800 hover:bg-neutral-700">{isSaved ? 'Save' : 'Save as new'}</button>
+        {isSaved && <button onClick={remove} className="px-3 py-1 rounded-md bg-neutral-800 hover:bg-red-700">Delete</button>}
+        <span className="text-neutral-400 text-xs">Octave shift <span className="font-mono">{octaveShift > 0 ? `+${octaveShift}` : octaveShift}</span></span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <label className="flex items-center gap-2">Key
+          <input readOnly className="w-24 bg-neutral-800 rounded px-2 py-1 font-mono text-center" placeholder="press a key"
+                 value={code ? legend(code) : ''} title={code ?? undefined}
+                 onKeyDown={(e) => {
+                   if (e.key === 'Tab') return;
+                   // Captured here only: the playing handler never sees it
+                   e.preventDefault();
+                   e.stopPropagation();
+                   if (e.code) setCode(e.code);
+                 }}
+                 onKeyUp={(e) => e.stopPropagation()} />
+        </label>
+        <select className="bg-neutral-800 rounded px-2 py-1" value={kind} onChange={(e) => setKind(e.target.value as KeyAction['kind'])}>
+          <option value="degree">Çeşni degree</option>
+          <option value="koma">Koma step</option>
+          <option value="octave">Octave shift</option>
+        </select>
+        {kind === 'degree' && (
+          <>
+            <select className="bg-neutral-800 rounded px-2 py-1" value={row} onChange={(e) => setRow(parseInt(e.target.value, 10))}>
+              {Array.from({ length: Math.max(rowCount, row + 1) }, (_, i) => <option key={i} value={i}>{rowName(i)}</option>)}
+            </select>
+            <label className="flex items-center gap-2">Degree
+              <input type="number" className="w-16 bg-neutral-800 rounded px-2 py-1" min={1} max={MAX_DEGREE} value={degree + 1}
+                     onChange={(e) => { const v = parseInt(e.target.value, 10); if (v >= 1 && v <= MAX_DEGREE) setDegree(v - 1); }} />
+            </label>
+          </>
+        )}
+        {kind === 'koma' && (
+          <label className="flex items-center gap-2">Koma
+            <input type="number" className="w-20 bg-neutral-800 rounded px-2 py-1" min={-53} max={106} value={koma}
+                   onChange={(e) => { const v = parseInt(e.target.value, 10); if (Number.isFinite(v)) setKoma(v); }} />
+          </label>
+        )}
+        {kind === 'octave' && (
+          <select className="bg-neutral-800 rounded px-2 py-1" value={shift} onChange={(e) => setShift(parseInt(e.target.value, 10))}>
+            <option value={-1}>Down</option>
+            <option value={1}>Up</option>
+          </select>
+        )}
+        <button onClick={assign} disabled={!code} className="px-3 py-1 rounded-md bg-neutral-800 hover:bg-neutral-700 disabled:opacity-50">Assign</button>
+      </div>
+
+      <div className="flex flex-wrap gap-1 text-xs">
+        {bindings.map(([c, a]) => (
+          <span key={c} className={`inline-flex items-center gap-1 rounded-md px-2 py-0.5 ${c === code ? 'bg-neutral-700' : 'bg-neutral-800'}`}>
+            <button onClick={() => pick(c, a)} className="flex items-center gap-1" title={c}>
+              <span className="font-mono text-neutral-100">{legend(c)}</span>
+              <span className="text-neutral-400">{describeAction(a)}</span>
+            </button>
+            <button onClick={() => unbind(c)} className="text-neutral-500 hover:text-red-400" title="Unbind">✕</button>
+          </span>
+        ))}
+        {!bindings.length && <span className="text-neutral-400">No keys bound.</span>}
+      </div>
+      <p className="text-xs text-neutral-400">
+        Keys are matched by position (KeyboardEvent.code), so a layout works the same on AZERTY, Turkish Q/F or Dvorak.
+        Degrees follow whatever çeşni each keyboard row shows; koma steps count from step 0 and are remapped to the active division.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { type PitchFrame, detectPitchYin, komaForFreq, komaHistogram, mixToMono, pitchTrackChunked } from "./pitchDetect";
+
+// Pitch analysis panel – audio file or microphone against the koma grid
+
+type PitchAnalysisPanelProps = {
+  baseFreq: number;
+  stepsPerOctave: number;
+  degreeSteps: number[];          // çeşni degrees to overlay (absolute steps)
+  getCtx: () => AudioContext;
+};
+
+const HOP_SEC = 0.01;
+const PLOT_W = 900;
+const PLOT_H = 260;
+const MIC_MAX_SEC = 60;
+const MIC_PUBLISH_SEC = 0.1; // live mic frames reach the plot at most this often
+
+const fmtDev = (c: number) => `${c >= 0 ? '+' : ''}${c.toFixed(1)}¢`;
+
+export default function PitchAnalysisPanel({ baseFreq, stepsPerOctave, degreeSteps, getCtx }: PitchAnalysisPanelProps) {
+  const [track, setTrack] = useState<PitchFrame[]>([]);
+  const [status, setStatus] = useState<string | null>(null);
+  const [micOn, setMicOn] = useState(false);
+  const micRef = useRef<{ stream: MediaStream; raf: number; source: MediaStreamAudioSourceNode; frames: PitchFrame[] } | null>(null);
+
+  // Bumped per file so a newer load (or unmount) abandons the analysis still running
+  const loadIdRef = useRef(0);
+  const loadFile = async (file: File) => {
+    const id = ++loadIdRef.current;
+    setStatus('Decoding…');
+    try {
+      const buf = await getCtx().decodeAudioData(await file.arrayBuffer());
+      if (id !== loadIdRef.current) return;
+      setStatus('Detecting pitch…');
+      const frames = await pitchTrackChunked(mixToMono(buf), buf.sampleRate, HOP_SEC, undefined, undefined, (fraction) => {
+        if (id !== loadIdRef.current) return false;
+        setStatus(`Detecting pitch… ${Math.round(fraction * 100)}%`);
+      });
+      if (!frames) return;
+      setTrack(frames);
+      setStatus(`${file.name}: ${buf.duration.toFixed(1)} s, ${frames.filter(f => f.freq !== null).length} voiced frames.`);
+    } catch (err) {
+      setStatus(`Could not read audio: ${(err as Error)?.message ?? err}`);
+    }
+  };
+
+  const stopMic = () => {
+    const m = micRef.current;
+    if (!m) return;
+    cancelAnimationFrame(m.raf);
+    m.source.disconnect();
+    m.stream.getTracks().forEach(t => t.stop());
+    setTrack([...m.frames]);
+    micRef.current = null;
+    setMicOn(false);
+  };
+
+  // Polls an AnalyserNode; one detection per animation frame, collected off-state and published in batches
+  const startMic = async () => {
+    loadIdRef.current++;
+    try {
+      const ctx = getCtx();
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const source = ctx.createMediaStreamSource(stream);
+      const analyser = ctx.createAnalyser();
+      analyser.fftSize = 2048;
+      source.connect(analyser);
+      const buf = new Float32Array(analyser.fftSize);
+      const t0 = performance.now();
+      const frames: PitchFrame[] = [];
+      let publishedAt = 0;
+      setTrack([]);
+      const loop = () => {
+        analyser.getFloatTimeDomainData(buf);
+        const t = (performance.now() - t0) / 1000;
+        frames.push({ t, freq: detectPitchYin(buf, ctx.sampleRate) });
+        if (t > MIC_MAX_SEC) { stopMic(); return; }
+        if (t - publishedAt >= MIC_PUBLISH_SEC) { publishedAt = t; setTrack([...frames]); }
+        if (micRef.current) micRef.current.raf = requestAnimationFrame(loop);
+      };
+      micRef.current = { stream, source, frames, raf: requestAnimationFrame(loop) };
+      setMicOn(true);
+      setStatus('Listening…');
+    } catch (err) {
+      setStatus(`Microphone unavailable: ${(err as Error)?.message ?? err}`);
+    }
+  };
+
+  useEffect(() => () => { loadIdRef.current++; stopMic(); }, []);
+
+  // Mic frames are irregular; use the median spacing as the histogram weight
+  const hop = useMemo(() => {
+    if (track.length < 2) return HOP_SEC;
+    const gaps = track.slice(1).map((f, i) => f.t - track[i].t).sort((a, b) => a - b);
+    return gaps[Math.floor(gaps.length / 2)] || HOP_SEC;
+  }, [track]);
+  const bins = useMemo(() => komaHistogram(track, baseFreq, stepsPerOctave, hop), [track, baseFreq, stepsPerOctave, hop]);
+
+  const points = useMemo(
+    () => track.filter(f => f.freq !== null).map(f => ({ t: f.t, k: komaForFreq(f.freq as number, baseFreq, stepsPerOctave) })),
+    [track, baseFreq, stepsPerOctave]
+  );
+
+  // Vertical range covers the çeşni degrees and the detected pitches
+  const [kMin, kMax] = useMemo(() => {
+    const ks = [...degreeSteps, ...points.map(p => p.k)];
+    if (!ks.length) return [0, stepsPerOctave];
+    return [Math.floor(Math.min(...ks)) - 3, Math.ceil(Math.max(...ks)) + 3];
+  }, [degreeSteps, points, stepsPerOctave]);
+  const tMax = track.length ? track[track.length - 1].t : 1;
+  const x = (t: number) => (t / Math.max(tMax, 1e-3)) * PLOT_W;
+  const y = (k: number) => PLOT_H - ((k - kMin) / Math.max(1, kMax - kMin)) * PLOT_H;
+  const maxSeconds = Math.max(1e-6, ...bins.map(b => b.seconds));
+
+  return (
+    <div className="rounded-2xl bg-neutral-900 p-4 space-y-3">
+      <h2 className="font-semibold">Pitch analysis</h2>
+      <div className="flex flex-wrap items-center gap-4 text-sm">
+        <label className="flex items-center gap-2">Audio file
+          <input
+            type="file" accept="audio/*"
+            className="text-xs"
+            onChange={(e) => { const f = e.target.files?.[0]; if (f) loadFile(f); e.target.value = ''; }}
+          />
+        </label>
+        <button onClick={micOn ? stopMic : startMic} className={`px-3 py-1 rounded-md ${micOn ? 'bg-red-700 hover:bg-red-600' : 'bg-neutral-800 hover:bg-neutral-700'}`}>
+          {micOn ? 'Stop microphone' : 'Use microphone'}
+        </button>
+        {status && <span className="text-xs text-neutral-400">{status}</span>}
+      </div>
+
+      {track.length > 0 && (
+        <>
+          <svg viewBox={`0 0 ${PLOT_W} ${PLOT_H}`} className="w-full h-64 bg-neutral-950/60 rounded-lg">
+            {Array.from({ length: kMax - kMin + 1 }, (_, i) => kMin + i).map(k => (
+              <line key={`g${k}`} x1={0} x2={PLOT_W} y1={y(k)} y2={y(k)} stroke="#262626" strokeWidth={0.5} />
+            ))}
+            {degreeSteps.map(k => (
+              <g key={`d${k}`}>
+                <line x1={0} x2={PLOT_W} y1={y(k)} y2={y(k)} stroke="#facc15" strokeWidth={1} strokeDasharray="4 3" />
+                <text x={4} y={y(k) - 2} fontSize={10} fill="#facc15">{k}</text>
+              </g>
+            ))}
+            {points.map((p, i) => (<circle key={i} cx={x(p.t)} cy={y(p.k)} r={1.3} fill="#22c55e" />))}
+          </svg>
+
+          <div className="space-y-1">
+            <div className="text-xs text-neutral-400">Time near each koma (relative to base {baseFreq.toFixed(2)} Hz); mean deviation in cents</div>
+            <div className="flex items-end gap-1 h-28 overflow-x-auto">
+              {bins.map(b => (
+                <div key={b.step} className="flex flex-col items-center justify-end h-full min-w-6"
+                     title={`Step ${b.step}: ${b.seconds.toFixed(2)} s, ${fmtDev(b.meanCents)}`}>
+                  <div className={`w-4 rounded-t ${degreeSteps.includes(b.step) ? 'bg-yellow-400' : 'bg-neutral-500'}`}
+                       style={{ height: `${(b.seconds / maxSeconds) * 80}%` }} />
+                  <div className="text-[10px] font-mono text-neutral-300">{b.step}</div>
+                  <div className="text-[9px] font-mono text-neutral-500">{fmtDev(b.meanCents)}</div>
+                </div>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+import { useMemo, useState } from "react";
+import { KOMA_EDO, centsPerStepFor } from "./edo";
+import { type AeuSpelling, AEU_ACCIDENTALS, describeSpelling, komaFromYegah, perdeAt, spellKoma } from "./perde";
+
+// Staff notation panel – the current dizi on a treble staff with AEU accidentals
+
+type StaffPanelProps = {
+  steps: number[];               // highlighted steps of both keyboards (absolute)
+  soundingSteps: Set<number>;    // steps currently glowing
+  activeStep: number | null;
+  transpose12: number;
+  edo: number;
+};
+
+type StaffNote = { step: number; spelling: AeuSpelling; name: string | null; pos: number; offCents: number };
+
+const GAP = 10;                  // distance between staff lines
+const TOP = 50;                  // y of the top line (F5)
+const BOTTOM = TOP + 4 * GAP;    // y of the bottom line (E4)
+const CLEF_W = 44;
+const NOTE_W = 38;
+const KEY_ACC_W = 11;
+const LETTERS = ['C', 'D', 'E', 'F', 'G', 'A', 'B'];
+const BOTTOM_POS = 4 * 7 + 2;    // E4 as a diatonic index
+const TOP_POS = BOTTOM_POS + 8;  // F5
+
+// Traditional key-signature placement on a treble staff
+const FLAT_ORDER: [string, number][] = [['B', 34], ['E', 37], ['A', 33], ['D', 36], ['G', 32], ['C', 35], ['F', 31]];
+const SHARP_ORDER: [string, number][] = [['F', 38], ['C', 35], ['G', 39], ['D', 36], ['A', 33], ['E', 37], ['B', 34]];
+
+const diatonicPos = (sp: AeuSpelling) => sp.octave * 7 + LETTERS.indexOf(sp.letter);
+const yForPos = (pos: number) => BOTTOM - (pos - BOTTOM_POS) * (GAP / 2);
+
+/**
+ * Nearest spellable koma for a step. Most positions have a single-accidental
+ * spelling; the few that don't borrow their neighbour's.
+ */
+function staffNoteForStep(step: number, transpose12: number, edo: number): StaffNote | null {
+  const exact = komaFromYegah(step, transpose12, edo);
+  const k = Math.round(exact);
+  for (const cand of [k, k - 1, k + 1]) {
+    const spelling = spellKoma(cand);
+    if (!spelling) continue;
+    return { step, spelling, name: perdeAt(cand)?.name ?? null, pos: diatonicPos(spelling), offCents: (exact - cand) * centsPerStepFor(KOMA_EDO) };
+  }
+  return null;
+}
+
+/**
+ * AEU glyphs built from flat/sharp strokes: the plain flat and sharp are the
+ * 5-koma (bakiye flat, küçük mücenneb sharp) signs; a slash marks the koma flat,
+ * a mirrored flat the 4-koma flat, a one-stem sharp the koma sharp and a
+ * slashed sharp the 4-koma sharp; the büyük mücenneb signs add a second stroke.
+ */
+function AeuGlyph({ acc, x, y, color }: { acc: number; x: number; y: number; color: string }) {
+  const common = { stroke: color, strokeWidth: 1.3, fill: 'none', strokeLinecap: 'round' as const };
+  if (acc < 0) {
+    const mirrored = acc === -4 || acc === -8;
+    const slashed = acc === -1 || acc === -8;
+    return (
+      <g transform={mirrored ? `translate(${2 * x + 6} 0) scale(-1 1)` : undefined}>
+        <line x1={x} y1={y - 16} x2={x} y2={y + 4} {...common} />
+        <path d={`M ${x} ${y + 4} C ${x + 9} ${y - 1}, ${x + 8} ${y - 7}, ${x} ${y - 2}`} {...common} />
+        {slashed && <line x1={x - 4} y1={y - 6} x2={x + 4} y2={y - 11} {...common} />}
+        {acc === -8 && <line x1={x - 4} y1={y - 2} x2={x + 4} y2={y - 7} {...common} />}
+      </g>
+    );
+  }
+  const stems = acc === 1 ? [x + 3] : acc === 8 ? [x, x + 3, x + 6] : [x + 1, x + 5];
+  return (
+    <g>
+      {stems.map(sx => <line key={sx} x1={sx} y1={y - 9} x2={sx} y2={y + 9} {...common} />)}
+      <line x1={x - 2} y1={y - 2} x2={x + 8} y2={y - 5} {...common} strokeWidth={2.2} />
+      <line x1={x - 2} y1={y + 5} x2={x + 8} y2={y + 2} {...common} strokeWidth={2.2} />
+      {acc === 4 && <line x1={x - 3} y1={y + 8} x2={x + 9} y2={y - 8} {...common} />}
+    </g>
+  );
+}
+
+export default function StaffPanel({ steps, soundingSteps, activeStep, transpose12, edo }: StaffPanelProps) {
+  const [asKeySignature, setAsKeySignature] = useState(false);
+
+  const notes = useMemo(
+    () => steps.map(s => staffNoteForStep(s, transpose12, edo)).filter((n): n is StaffNote => n !== null),
+    [steps, transpose12, edo]
+  );
+
+  // A letter enters the key signature when every occurrence carries the same accidental
+  const keySig = useMemo(() => {
+    const byLetter = new Map<string, Set<number>>();
+    for (const n of notes) {
+      const set = byLetter.get(n.spelling.letter) ?? new Set<number>();
+      set.add(n.spelling.accidental);
+      byLetter.set(n.spelling.letter, set);
+    }
+    const fixed = new Map<string, number>();
+    byLetter.forEach((accs, letter) => { if (accs.size === 1) { const [a] = accs; if (a !== 0) fixed.set(letter, a); } });
+    const flats = FLAT_ORDER.filter(([l]) => (fixed.get(l) ?? 0) < 0).map(([l, pos]) => ({ letter: l, pos, acc: fixed.get(l) as number }));
+    const sharps = SHARP_ORDER.filter(([l]) => (fixed.get(l) ?? 0) > 0).map(([l, pos]) => ({ letter: l, pos, acc: fixed.get(l) as number }));
+    return { fixed, signs: [...flats, ...sharps] };
+  }, [notes]);
+
+  const signs = asKeySignature ? keySig.signs : [];
+  const notesX0 = CLEF_W + signs.length * KEY_ACC_W + 24;
+  const width = Math.max(320, notesX0 + notes.length * NOTE_W + 10);
+  const minPos = Math.min(BOTTOM_POS - 2, ...notes.map(n => n.pos));
+  const maxPos = Math.max(TOP_POS + 2, ...notes.map(n => n.pos));
+  const height = yForPos(minPos) + 24;
+  const yOffset = Math.max(0, -(yForPos(maxPos) - 20));
+
+  const usedAccidentals = Array.from(new Set(notes.map(n => n.spelling.accidental).filter(a => a !== 0))).sort((a, b) => a - b);
+
+  return (
+    <div className="rounded-2xl bg-neutral-900 p-4 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h2 className="font-semibold">Staff</h2>
+        <label className="flex items-center gap-2 text-sm">Show as key signature
+          <input type="checkbox" checked={asKeySignature} onChange={(e) => setAsKeySignature(e.target.checked)} />
+        </label>
+      </div>
+
+      {notes.length === 0 ? (
+        <p className="text-xs text-neutral-400">Select a çeşni to see its notes.</p>
+      ) : (
+        <div className="overflow-x-auto rounded-lg bg-neutral-100">
+          <svg width={width} height={height + yOffset} viewBox={`0 ${-yOffset} ${width} ${height + yOffset}`}>
+            {[0, 1, 2, 3, 4].map(i => (
+              <line key={i} x1={6} x2={width - 6} y1={TOP + i * GAP} y2={TOP + i * GAP} stroke="#171717" strokeWidth={1} />
+            ))}
+            <text x={8} y={BOTTOM + 9} fontSize={GAP * 6.6} fill="#171717">𝄞</text>
+
+            {signs.map((s, i) => (
+              <g key={s.letter}>
+                <title>{`${s.letter} ${AEU_ACCIDENTALS[s.acc]}`}</title>
+                <AeuGlyph acc={s.acc} x={CLEF_W + i * KEY_ACC_W} y={yForPos(s.pos)} color="#171717" />
+              </g>
+            ))}
+
+            {notes.map((n, i) => {
+              const x = notesX0 + i * NOTE_W;
+              const y = yForPos(n.pos);
+              const sounding = soundingSteps.has(n.step);
+              const color = sounding ? '#ca8a04' : '#171717';
+              const showAcc = n.spelling.accidental !== 0 && !(asKeySignature && keySig.fixed.has(n.spelling.letter));
+              const ledgers: number[] = [];
+              for (let p = BOTTOM_POS - 2; p >= n.pos; p -= 2) ledgers.push(p);
+              for (let p = TOP_POS + 2; p <= n.pos; p += 2) ledgers.push(p);
+              return (
+                <g key={n.step}>
+                  <title>
+                    {`Step ${n.step}${n.name ? ` • ${n.name}` : ''} • ${describeSpelling(n.spelling)}${Math.abs(n.offCents) >= 0.5 ? ` • ${n.offCents >= 0 ? '+' : ''}${n.offCents.toFixed(1)}¢` : ''}`}
+                  </title>
+                  {ledgers.map(p => (
+                    <line key={p} x1={x - 9} x2={x + 9} y1={yForPos(p)} y2={yForPos(p)} stroke="#171717" strokeWidth={1} />
+                  ))}
+                  {showAcc && <AeuGlyph acc={n.spelling.accidental} x={x - 19} y={y} color={color} />}
+                  {n.step === activeStep && <ellipse cx={x} cy={y} rx={11} ry={8} fill="none" stroke="#facc15" strokeWidth={2} />}
+                  <ellipse cx={x} cy={y} rx={6.5} ry={4.6} transform={`rotate(-20 ${x} ${y})`}
+                           fill={sounding ? '#facc15' : 'none'} stroke={color} strokeWidth={1.8} />
+                  <text x={x} y={height - 4} fontSize={9} textAnchor="middle" fill="#525252">{n.name ?? ''}</text>
+                </g>
+              );
+            })}
+          </svg>
+        </div>
+      )}
+
+      {usedAccidentals.length > 0 && (
+        <div className="flex flex-wrap gap-3 text-xs text-neutral-400">
+          {usedAccidentals.map(a => (
+            <span key={a} className="flex items-center gap-1">
+              <svg width={18} height={24} viewBox="-6 -14 18 28" className="bg-neutral-100 rounded">
+                <AeuGlyph acc={a} x={0} y={0} color="#171717" />
+              </svg>
+              {AEU_ACCIDENTALS[a]} ({a > 0 ? '+' : ''}{a} koma)
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+// Çeşni classification – nearest built-in çeşni for a set of degrees, and the recognition drill's questions
+
+export type CesniCandidate = { id: string; label: string; steps: number[] };  // 53-koma, from 0
+
+export type CesniMatch = {
+  id: string;
+  label: string;
+  diffs: number[];    // per degree: input minus candidate (komas); diffs[0] is always 0
+  distance: number;   // sum of |diffs|
+};
+
+const ORDINALS = ['first', 'second', 'third', 'fourth', 'fifth', 'sixth', 'seventh', 'eighth'];
+
+export const degreeDiffs = (steps: number[], reference: number[]) => steps.map((s, i) => s - reference[i]);
+
+/**
+ * Built-in çeşnis with the same number of degrees, closest first. Ties go to
+ * the candidate whose largest single deviation is smaller.
+ */
+export function classifyCesni(steps: number[], candidates: CesniCandidate[]): CesniMatch[] {
+  if (steps.length < 2) return [];
+  const worst = (m: CesniMatch) => Math.max(...m.diffs.map(Math.abs));
+  return candidates
+    .filter(c => c.steps.length === steps.length)
+    .map(c => {
+      const diffs = degreeDiffs(steps, c.steps);
+      return { id: c.id, label: c.label, diffs, distance: diffs.reduce((sum, d) => sum + Math.abs(d), 0) };
+    })
+    .sort((a, b) => a.distance - b.distance || worst(a) - worst(b));
+}
+
+// e.g. "1-koma higher second and 2-koma lower fourth"
+export function describeDiffs(diffs: number[]): string {
+  const parts = diffs.flatMap((d, i) => (d === 0 ? [] : [`${Math.abs(d)}-koma ${d > 0 ? 'higher' : 'lower'} ${ORDINALS[i] ?? `degree ${i + 1}`}`]));
+  if (parts.length <= 1) return parts.join('');
+  return `${parts.slice(0, -1).join(', ')} and ${parts[parts.length - 1]}`;
+}
+
+// e.g. "Uşşak tetrachord with a 1-koma higher second"
+export function describeMatch(m: CesniMatch): string {
+  return m.distance === 0 ? m.label : `${m.label} with a ${describeDiffs(m.diffs)}`;
+}
+
+// ------- Recognition drill -------
+export type DrillShape = 'ascending' | 'descending' | 'motif';
+
+export type DrillQuestion = {
+  cesniId: string;
+  shape: DrillShape;
+  offset: number;     // 53-koma transposition from the durak
+  sequence: number[]; // 53-koma steps in playing order (offset included)
+};
+
+const MAX_OFFSET = 22;
+
+/**
+ * Degree indices for a short motif: up the çeşni with one turn back on a
+ * random inner degree, then down to the first degree.
+ */
+export function motifIndices(n: number, rand: () => number = Math.random): number[] {
+  if (n < 3) return Array.from({ length: n }, (_, i) => i);
+  const turn = 1 + Math.floor(rand() * (n - 2));
+  const up = Array.from({ length: n }, (_, i) => i);
+  up.splice(turn + 1, 0, turn - 1, turn);
+  const down = Array.from({ length: n - 1 }, (_, i) => n - 2 - i);
+  return [...up, ...down];
+}
+
+export function makeDrillQuestion(candidates: CesniCandidate[], shapes: DrillShape[], rand: () => number = Math.random): DrillQuestion | null {
+  if (!candidates.length || !shapes.length) return null;
+  const c = candidates[Math.floor(rand() * candidates.length)];
+  const shape = shapes[Math.floor(rand() * shapes.length)];
+  const offset = Math.floor(rand() * (2 * MAX_OFFSET + 1)) - MAX_OFFSET;
+  const idx = shape === 'motif' ? motifIndices(c.steps.length, rand)
+    : c.steps.map((_, i) => (shape === 'ascending' ? i : c.steps.length - 1 - i));
+  return { cesniId: c.id, shape, offset, sequence: idx.map(i => offset + c.steps[i]) };
+}
@@ -0,0 +1,86 @@
+// User çeşni library – named custom recipes kept in localStorage, shareable as JSON
+
+export type UserCesni = {
+  id: string;        // 'user_…', never collides with built-in ids
+  name: string;
+  notes: string;
+  steps: number[];   // absolute koma steps, starting at 0
+};
+
+export const LIBRARY_VERSION = 1;
+const STORAGE_KEY = 'makam-klavyesi.cesniLibrary';
+
+type LibraryFile = { version: number; cesnis: UserCesni[] };
+
+export const newUserCesniId = () => `user_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+// Ascending integers from 0 within [0, maxStep]
+function validSteps(steps: unknown, maxStep: number): steps is number[] {
+  if (!Array.isArray(steps) || steps.length === 0 || steps[0] !== 0) return false;
+  for (let i = 0; i < steps.length; i++) {
+    const v = steps[i];
+    if (!Number.isInteger(v) || v < 0 || v > maxStep) return false;
+    if (i > 0 && v <= steps[i - 1]) return false;
+  }
+  return true;
+}
+
+function sanitize(raw: unknown, maxStep: number): UserCesni | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const r = raw as Record<string, unknown>;
+  if (typeof r.name !== 'string' || !r.name.trim()) return null;
+  if (!validSteps(r.steps, maxStep)) return null;
+  return {
+    id: typeof r.id === 'string' && r.id.startsWith('user_') ? r.id : newUserCesniId(),
+    name: r.name.trim(),
+    notes: typeof r.notes === 'string' ? r.notes : '',
+    steps: r.steps.slice(),
+  };
+}
+
+/**
+ * Parses a versioned library file. Entries that fail validation are skipped
+ * and counted so the UI can tell the user.
+ */
+export function parseLibraryJson(text: string, maxStep: number): { cesnis: UserCesni[]; skipped: number; error: string | null } {
+  let data: unknown;
+  try { data = JSON.parse(text); } catch { return { cesnis: [], skipped: 0, error: 'Not valid JSON.' }; }
+  const file = data as Partial<LibraryFile> | null;
+  if (!file || typeof file !== 'object' || !Array.isArray(file.cesnis)) return { cesnis: [], skipped: 0, error: 'Missing "cesnis" list.' };
+  if (typeof file.version !== 'number' || file.version > LIBRARY_VERSION) {
+    return { cesnis: [], skipped: 0, error: `Unsupported library version: ${String(file.version)}` };
+  }
+  const cesnis: UserCesni[] = [];
+  let skipped = 0;
+  for (const raw of file.cesnis) {
+    const c = sanitize(raw, maxStep);
+    if (c) cesnis.push(c); else skipped++;
+  }
+  return { cesnis, skipped, error: null };
+}
+
+export const libraryToJson = (cesnis: UserCesni[]) =>
+  JSON.stringify({ version: LIBRARY_VERSION, cesnis } satisfies LibraryFile, null, 2);
+
+// Merge imported entries: same id replaces, new ids are appended
+export function mergeLibrary(current: UserCesni[], incoming: UserCesni[]): UserCesni[] {
+  const out = current.slice();
+  for (const c of incoming) {
+    const i = out.findIndex(o => o.id === c.id);
+    if (i >= 0) out[i] = c; else out.push(c);
+  }
+  return out;
+}
+
+export function loadLibrary(maxStep: number): UserCesni[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? parseLibraryJson(raw, maxStep).cesnis : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveLibrary(cesnis: UserCesni[]) {
+  try { localStorage.setItem(STORAGE_KEY, libraryToJson(cesnis)); } catch { /* storage full or disabled */ }
+}
@@ -0,0 +1,57 @@
+// Dizi composer – a stack of çeşni segments, each anchored at a koma step from the durak
+
+import { remapKomaStep, remapKomaSteps } from "./edo";
+
+export type DiziSegment = {
+  cesniId: string;
+  anchor: number;   // 53-koma step of the segment's first degree (negative = below the durak)
+};
+
+export type DiziDirection = 'ascending' | 'descending';
+
+// descending === null means the descending form is the same as the ascending one
+export type DiziStack = { ascending: DiziSegment[]; descending: DiziSegment[] | null };
+
+export type DiziRow = {
+  index: number;
+  cesniId: string;
+  steps: number[];  // absolute steps in the active division
+  start: number;
+  end: number;
+};
+
+// One keyboard row per segment; the home-row key layout has a hotkey row for each
+export const MAX_DIZI_SEGMENTS = 6;
+
+export const segmentsFor = (stack: DiziStack, dir: DiziDirection) =>
+  dir === 'descending' && stack.descending ? stack.descending : stack.ascending;
+
+// 53-koma degrees of one segment (anchor added)
+export const segmentKomaSteps = (seg: DiziSegment, recipeFor: (id: string) => number[] | null) =>
+  (recipeFor(seg.cesniId) ?? []).map(s => seg.anchor + s);
+
+/**
+ * Keyboard rows for a segment list. Recipes and anchors are both 53-koma and
+ * are remapped separately, so a joint stays on the same step in every row.
+ */
+export function buildDiziRows(segments: DiziSegment[], recipeFor: (id: string) => number[] | null, edo: number): DiziRow[] {
+  return segments.map((seg, index) => {
+    const anchor = remapKomaStep(seg.anchor, edo);
+    const steps = remapKomaSteps(recipeFor(seg.cesniId) ?? [], edo).steps.map(s => anchor + s);
+    return {
+      index,
+      cesniId: seg.cesniId,
+      steps,
+      start: steps.length ? Math.min(...steps) : anchor,
+      end: steps.length ? Math.max(...steps) : anchor,
+    };
+  });
+}
+
+export const diziSteps = (rows: DiziRow[]) =>
+  Array.from(new Set(rows.flatMap(r => r.steps))).sort((a, b) => a - b);
+
+export const stackFromMakam = (m: { lower: string; upper: string; join: number }): DiziStack => ({
+  ascending: [{ cesniId: m.lower, anchor: 0 }, { cesniId: m.upper, anchor: m.join }],
+  descending: null,
+});
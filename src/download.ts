@@ -0,0 +1,15 @@
+// Browser download helpers (Blob + temporary <a download>)
+
+export function downloadBlob(filename: string, blob: Blob) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export const downloadText = (filename: string, text: string, type = 'text/plain') =>
+  downloadBlob(filename, new Blob([text], { type: `${type};charset=utf-8` }));
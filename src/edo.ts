@@ -0,0 +1,28 @@
+// Equal divisions of the octave – remapping 53-koma recipes into other EDOs
+
+export const KOMA_EDO = 53;
+export const EDO_CHOICES = [12, 17, 19, 22, 24, 31, 36, 41, 48, 53, 72, 106];
+export const MIN_EDO = 5;
+export const MAX_EDO = 200;
+
+export const centsPerStepFor = (edo: number) => 1200 / edo;
+
+// Steps of the nearest fifth; bounds a single çeşni (31 in 53-EDO)
+export const fifthStepsFor = (edo: number) => Math.round(edo * Math.log2(3 / 2));
+
+// Nearest step in `edo` for a 53-koma step
+export const remapKomaStep = (komaStep: number, edo: number) => Math.round((komaStep * edo) / KOMA_EDO);
+
+/**
+ * Remaps 53-koma absolute steps to `edo`. `errors` has one entry per input
+ * degree: remapped pitch minus original pitch, in cents. Degrees that collapse
+ * onto the same step are merged in `steps`.
+ */
+export function remapKomaSteps(komaSteps: number[], edo: number): { steps: number[]; errors: number[] } {
+  if (edo === KOMA_EDO) return { steps: komaSteps, errors: komaSteps.map(() => 0) };
+  const mapped = komaSteps.map(s => remapKomaStep(s, edo));
+  const errors = komaSteps.map((s, i) => mapped[i] * centsPerStepFor(edo) - s * centsPerStepFor(KOMA_EDO));
+  const steps: number[] = [];
+  for (const v of mapped) if (!steps.includes(v)) steps.push(v);
+  return { steps, errors };
+}
@@ -0,0 +1,35 @@
+// Glide gestures – continuous pitch from the finger's position along a key row
+
+import { KOMA_EDO } from "./edo";
+
+export type GestureMode = 'vibrato' | 'bend';
+
+export type GestureSettings = {
+  portamento: number;   // s
+  mode: GestureMode;    // what vertical movement inside a key does
+  rangeKoma: number;    // full bend / vibrato depth at the key's edge
+  vibratoRate: number;  // Hz
+};
+
+export type Gesture = {
+  pos: number;          // continuous absolute step under the finger
+  dy: number;           // -1..1, up is positive (relative to where the finger went down)
+  startedAt: number;    // s, vibrato phase origin
+};
+
+/**
+ * Continuous step under `x`, given the centres of the first and last key:
+ * each key centre lands on its whole step and positions between interpolate.
+ */
+export function stepAtX(x: number, firstCentre: number, lastCentre: number, startStep: number, span: number): number {
+  if (span <= 1 || lastCentre <= firstCentre) return startStep;
+  const pos = ((x - firstCentre) / (lastCentre - firstCentre)) * (span - 1);
+  return startStep + Math.min(span - 1, Math.max(0, pos));
+}
+
+// Offset in steps of the active division at time t (s)
+export function gestureOffset(g: Gesture, settings: GestureSettings, edo: number, t: number): number {
+  const range = (settings.rangeKoma * edo) / KOMA_EDO;
+  if (settings.mode === 'bend') return g.dy * range;
+  return Math.abs(g.dy) * range * Math.sin(2 * Math.PI * settings.vibratoRate * (t - g.startedAt));
+}
@@ -0,0 +1,68 @@
+// Isomorphic hex grid – Bosanquet/Wicki-style key surface built from two generator intervals
+
+import { remapKomaStep } from "./edo";
+
+export type HexSettings = {
+  right: number;     // koma to the next key on the right (9 = tanini)
+  upRight: number;   // koma to the key up and to the right (5 = apotome, 31 = fifth); up-left is the difference
+  rows: number;
+  cols: number;
+  lowKoma: number;   // koma of the bottom-left key, from step 0
+};
+
+// Generator pairs; Bosanquet reaches all 53 komas on the default 7 × 12 grid, Wicki needs a much larger one
+export const HEX_PRESETS: { id: string; label: string; right: number; upRight: number }[] = [
+  { id: 'bosanquet', label: 'Bosanquet (tone →, apotome ↗)', right: 9, upRight: 5 },
+  { id: 'wicki', label: 'Wicki (tone →, fifth ↗)', right: 9, upRight: 31 },
+  { id: 'koma', label: 'Koma rows (koma →, fifth ↗)', right: 1, upRight: 31 },
+];
+
+export const DEFAULT_HEX: HexSettings = { right: 9, upRight: 5, rows: 7, cols: 12, lowKoma: -53 };
+
+export const HEX_LIMITS = { rows: [2, 12], cols: [4, 24], generator: [-53, 53], lowKoma: [-159, 53] } as const;
+
+export type HexCell = {
+  step: number;   // absolute step in the active division
+  row: number;    // 0 = bottom
+  col: number;
+  x: number;      // centre, in units of the hexagon's circumradius
+  y: number;
+};
+
+const ROOT3 = Math.sqrt(3);
+
+/**
+ * Pointy-top hexagons in offset rows: odd rows sit half a key to the right,
+ * so the up-right neighbour is always one `upRight` generator away and the
+ * right-hand neighbour one `right` generator away. Generators are 53-koma
+ * sizes remapped to the active division.
+ */
+export function hexCells(s: HexSettings, edo: number): HexCell[] {
+  const right = remapKomaStep(s.right, edo);
+  const upRight = remapKomaStep(s.upRight, edo);
+  const low = remapKomaStep(s.lowKoma, edo);
+  const cells: HexCell[] = [];
+  for (let row = 0; row < s.rows; row++) {
+    for (let col = 0; col < s.cols; col++) {
+      cells.push({
+        step: low + (col - Math.floor(row / 2)) * right + row * upRight,
+        row,
+        col,
+        x: ROOT3 * (col + (row % 2 ? 1 : 0.5)),
+        y: 1 + 1.5 * (s.rows - 1 - row),
+      });
+    }
+  }
+  return cells;
+}
+
+// viewBox size for hexCells at circumradius 1
+export const hexViewBox = (s: HexSettings) => ({ width: ROOT3 * (s.cols + 0.5), height: 2 + 1.5 * (s.rows - 1) });
+
+// SVG points of a hexagon centred on (x, y); r < 1 leaves a gap between keys
+export function hexPoints(x: number, y: number, r = 0.94): string {
+  return Array.from({ length: 6 }, (_, i) => {
+    const a = (Math.PI / 3) * i + Math.PI / 6;
+    return `${(x + r * Math.cos(a)).toFixed(3)},${(y + r * Math.sin(a)).toFixed(3)}`;
+  }).join(' ');
+}
@@ -0,0 +1,227 @@
+// Instrument engines – plucked string (Karplus-Strong), ney model and sample player behind VoiceLike
+
+import { type Adsr, type VoiceLike, Envelope, Voice, glideParam } from "./voice";
+import { type SampleSet, pickSample } from "./sampleSet";
+
+export type InstrumentId = OscillatorType | 'kanun' | 'ud' | 'ney' | 'sampler';
+
+export const OSCILLATOR_TYPES: OscillatorType[] = ['sine', 'triangle', 'square', 'sawtooth'];
+export const INSTRUMENTS: { id: InstrumentId; label: string }[] = [
+  ...OSCILLATOR_TYPES.map(w => ({ id: w, label: w })),
+  { id: 'kanun', label: 'Kanun (plucked)' },
+  { id: 'ud', label: 'Ud (plucked)' },
+  { id: 'ney', label: 'Ney (breath)' },
+  { id: 'sampler', label: 'Sampler' },
+];
+export const isInstrumentId = (s: string): s is InstrumentId => INSTRUMENTS.some(i => i.id === s);
+export const isOscillatorType = (s: string): s is OscillatorType => (OSCILLATOR_TYPES as string[]).includes(s);
+
+// ------- Karplus-Strong plucked string -------
+type PluckModel = { decay: number; damping: number; excitationLowpass: number; seconds: number };
+
+const PLUCK_MODELS: Record<'kanun' | 'ud', PluckModel> = {
+  kanun: { decay: 0.998, damping: 0.35, excitationLowpass: 0.15, seconds: 3.5 },
+  ud:    { decay: 0.996, damping: 0.5, excitationLowpass: 0.55, seconds: 2.5 },
+};
+
+const pluckCache = new Map<string, AudioBuffer>();
+
+/**
+ * Renders one string pluck with an integer delay line of `period` samples.
+ * `damping` blends the two-point averaging filter (0.5 = classic KS, lower = brighter);
+ * `excitationLowpass` softens the noise burst (ud: felt-like, kanun: pick-like).
+ */
+export function renderPluck(period: number, sampleRate: number, model: PluckModel, rand: () => number = Math.random): Float32Array {
+  const out = new Float32Array(Math.ceil(model.seconds * sampleRate));
+  const line = new Float32Array(period);
+  let prev = 0;
+  for (let i = 0; i < period; i++) {
+    prev = prev * model.excitationLowpass + (rand() * 2 - 1) * (1 - model.excitationLowpass);
+    line[i] = prev;
+  }
+  let idx = 0;
+  let last = line[period - 1];
+  for (let n = 0; n < out.length; n++) {
+    const cur = line[idx];
+    const next = model.decay * ((1 - model.damping) * cur + model.damping * last);
+    out[n] = cur;
+    last = cur;
+    line[idx] = next;
+    idx = (idx + 1) % period;
+  }
+  // Normalise so every pitch plucks at the same level
+  let peak = 0;
+  for (let i = 0; i < out.length; i++) peak = Math.max(peak, Math.abs(out[i]));
+  if (peak > 0) for (let i = 0; i < out.length; i++) out[i] /= peak;
+  return out;
+}
+
+// Plays a cached pluck at playbackRate = freq / (sampleRate / period), so tuning is exact
+export class PluckVoice {
+  env: Envelope;
+  src: AudioBufferSourceNode;
+  period: number;
+  ended = false;
+  onEnded?: () => void;
+
+  constructor(ctx: BaseAudioContext, kind: 'kanun' | 'ud', freq: number, gain: number, adsr: Adsr, out: AudioNode) {
+    this.period = Math.max(2, Math.round(ctx.sampleRate / freq));
+    const key = `${kind}:${ctx.sampleRate}:${this.period}`;
+    let buf = pluckCache.get(key);
+    if (!buf) {
+      const data = renderPluck(this.period, ctx.sampleRate, PLUCK_MODELS[kind]);
+      buf = ctx.createBuffer(1, data.length, ctx.sampleRate);
+      buf.getChannelData(0).set(data);
+      pluckCache.set(key, buf);
+    }
+    // The pluck itself is the attack
+    this.env = new Envelope(ctx, gain, { ...adsr, attack: 0.002 }, out);
+    this.src = ctx.createBufferSource();
+    this.src.buffer = buf;
+    this.src.playbackRate.value = freq / (ctx.sampleRate / this.period);
+    this.src.connect(this.env.input);
+    // The string may die out before the key is released
+    this.src.onended = () => { this.ended = true; this.onEnded?.(); };
+    this.src.start();
+  }
+
+  setFrequency(f: number, glide = 0) { glideParam(this.src.playbackRate, f / (this.env.ctx.sampleRate / this.period), this.env.ctx, glide); }
+  setGain(g: number) { this.env.set(g); }
+  setWaveform() { /* timbre is fixed by the string model */ }
+
+  stop(release: number, onEnded?: () => void) {
+    if (this.ended) { onEnded?.(); return; }
+    this.onEnded = onEnded;
+    this.src.stop(this.env.release(release));
+  }
+}
+
+// ------- Ney: sine core plus band-passed breath noise -------
+const noiseCache = new Map<number, AudioBuffer>();
+function noiseBuffer(ctx: BaseAudioContext): AudioBuffer {
+  let buf = noiseCache.get(ctx.sampleRate);
+  if (!buf) {
+    buf = ctx.createBuffer(1, ctx.sampleRate * 2, ctx.sampleRate);
+    const d = buf.getChannelData(0);
+    for (let i = 0; i < d.length; i++) d[i] = Math.random() * 2 - 1;
+    noiseCache.set(ctx.sampleRate, buf);
+  }
+  return buf;
+}
+
+const NEY_VIBRATO_DEPTH = 0.002; // fraction of the frequency (about ±3.5 cents)
+
+export class NeyVoice {
+  env: Envelope;
+  osc: OscillatorNode;
+  noise: AudioBufferSourceNode;
+  band: BiquadFilterNode;
+  vibrato: OscillatorNode;
+  vibratoDepth: GainNode;
+
+  constructor(ctx: BaseAudioContext, freq: number, gain: number, adsr: Adsr, out: AudioNode) {
+    // The ney speaks slowly; never faster than 60 ms
+    this.env = new Envelope(ctx, gain, { ...adsr, attack: Math.max(0.06, adsr.attack) }, out);
+
+    this.osc = ctx.createOscillator();
+    this.osc.frequency.value = freq;
+    const core = ctx.createGain();
+    core.gain.value = 0.8;
+    this.osc.connect(core).connect(this.env.input);
+
+    // Gentle breath-driven wobble of the core tone
+    this.vibrato = ctx.createOscillator();
+    this.vibrato.frequency.value = 4.5;
+    this.vibratoDepth = ctx.createGain();
+    this.vibratoDepth.gain.value = freq * NEY_VIBRATO_DEPTH;
+    this.vibrato.connect(this.vibratoDepth).connect(this.osc.frequency);
+
+    this.noise = ctx.createBufferSource();
+    this.noise.buffer = noiseBuffer(ctx);
+    this.noise.loop = true;
+    this.band = ctx.createBiquadFilter();
+    this.band.type = 'bandpass';
+    this.band.frequency.value = freq;
+    this.band.Q.value = 10;
+    const pitched = ctx.createGain();
+    pitched.gain.value = 0.9;
+    const air = ctx.createBiquadFilter();
+    air.type = 'highpass';
+    air.frequency.value = 3000;
+    const airGain = ctx.createGain();
+    airGain.gain.value = 0.04;
+    this.noise.connect(this.band).connect(pitched).connect(this.env.input);
+    this.noise.connect(air).connect(airGain).connect(this.env.input);
+
+    this.osc.start();
+    this.vibrato.start();
+    this.noise.start();
+  }
+
+  setFrequency(f: number, glide = 0) {
+    glideParam(this.osc.frequency, f, this.env.ctx, glide);
+    glideParam(this.band.frequency, f, this.env.ctx, glide);
+    // Depth is in Hz, so it follows the pitch to stay the same width in cents
+    glideParam(this.vibratoDepth.gain, f * NEY_VIBRATO_DEPTH, this.env.ctx, glide);
+  }
+  setGain(g: number) { this.env.set(g); }
+  setWaveform() { /* timbre is fixed by the ney model */ }
+
+  stop(release: number, onEnded?: () => void) {
+    const end = this.env.release(release);
+    this.osc.stop(end);
+    this.vibrato.stop(end);
+    this.noise.stop(end);
+    this.osc.onended = () => onEnded?.();
+  }
+}
+
+// ------- Sample player -------
+export class SampleVoice {
+  env: Envelope;
+  src: AudioBufferSourceNode;
+  rootHz: number;
+  ended = false;
+  onEnded?: () => void;
+
+  constructor(ctx: BaseAudioContext, set: SampleSet, freq: number, gain: number, adsr: Adsr, out: AudioNode) {
+    const zone = pickSample(set, freq);
+    this.rootHz = zone.rootHz;
+    this.env = new Envelope(ctx, gain, adsr, out);
+    this.src = ctx.createBufferSource();
+    this.src.buffer = zone.buffer;
+    if (zone.loop) {
+      this.src.loop = true;
+      this.src.loopStart = zone.loop[0];
+      this.src.loopEnd = zone.loop[1];
+    }
+    this.src.playbackRate.value = freq / this.rootHz;
+    this.src.connect(this.env.input);
+    this.src.onended = () => { this.ended = true; this.onEnded?.(); };
+    this.src.start();
+  }
+
+  setFrequency(f: number, glide = 0) { glideParam(this.src.playbackRate, f / this.rootHz, this.env.ctx, glide); }
+  setGain(g: number) { this.env.set(g); }
+  setWaveform() { /* timbre comes from the samples */ }
+
+  stop(release: number, onEnded?: () => void) {
+    if (this.ended) { onEnded?.(); return; }
+    this.onEnded = onEnded;
+    this.src.stop(this.env.release(release));
+  }
+}
+
+/**
+ * Builds a voice for any instrument, playing into `out` (the master bus input).
+ * The sampler falls back to a sine Voice until a sample set is loaded.
+ */
+export function createVoice(
+  ctx: BaseAudioContext, instrument: InstrumentId, freq: number, gain: number, adsr: Adsr,
+  samples: SampleSet | null = null, out: AudioNode = ctx.destination,
+): VoiceLike {
+  if (instrument === 'kanun' || instrument === 'ud') return new PluckVoice(ctx, instrument, freq, gain, adsr, out);
+  if (instrument === 'ney') return new NeyVoice(ctx, freq, gain, adsr, out);
+  if (instrument === 'sampler') return samples ? new SampleVoice(ctx, samples, freq, gain, adsr, out) : new Voice(ctx, 'sine', freq, gain, adsr, out);
+  return new Voice(ctx, instrument, freq, gain, adsr, out);
+}
@@ -0,0 +1,116 @@
+// Interval trainer – two-tone quiz over the AEU interval names, scored in komas
+
+import { KOMA_EDO, remapKomaStep } from "./edo";
+
+export type IntervalType = { id: string; name: string; koma: number };
+
+export const INTERVAL_TYPES: IntervalType[] = [
+  { id: 'koma', name: 'Koma', koma: 1 },
+  { id: 'bakiye', name: 'Bakiye', koma: 4 },
+  { id: 'kucuk_mucenneb', name: 'Küçük mücenneb', koma: 5 },
+  { id: 'buyuk_mucenneb', name: 'Büyük mücenneb', koma: 8 },
+  { id: 'tanini', name: 'Tanini', koma: 9 },
+  { id: 'artik_ikili', name: 'Artık ikili', koma: 12 },
+];
+
+export type TrainerLevel = 'cesni' | 'named' | 'any';
+export const TRAINER_LEVELS: { id: TrainerLevel; label: string }[] = [
+  { id: 'cesni', label: 'Çeşni steps only' },
+  { id: 'named', label: 'All named intervals' },
+  { id: 'any', label: 'Any koma count (1–13)' },
+];
+const MAX_ANY_KOMA = 13;
+
+export type TrainerQuestion = {
+  low: number;      // absolute steps in the active division
+  high: number;
+  koma: number;     // interval size in komas
+  typeId: string;   // nearest named interval
+};
+
+export type TrainerResult = { correct: boolean; missKoma: number; answer: string };
+
+// Komas in a step span of the active division
+export const komasForSteps = (steps: number, edo: number) => Math.round((steps * KOMA_EDO) / edo);
+
+// Nearest named interval (ties go to the smaller one)
+export function intervalTypeFor(koma: number): IntervalType {
+  let best = INTERVAL_TYPES[0];
+  for (const t of INTERVAL_TYPES) if (Math.abs(t.koma - koma) < Math.abs(best.koma - koma)) best = t;
+  return best;
+}
+
+// Adjacent degree pairs of the given çeşnis (absolute steps)
+const adjacentPairs = (degreeSets: number[][]) =>
+  degreeSets.flatMap(set => set.slice(1).map((b, i) => [set[i], b] as const));
+
+// Interval names offered as answers at a level
+export function answerTypesFor(level: TrainerLevel, degreeSets: number[][], edo: number): IntervalType[] {
+  if (level !== 'cesni') return INTERVAL_TYPES;
+  const ids = new Set(adjacentPairs(degreeSets).map(([a, b]) => intervalTypeFor(komasForSteps(b - a, edo)).id));
+  return INTERVAL_TYPES.filter(t => ids.has(t.id));
+}
+
+/**
+ * 'cesni' plays a step of the selected çeşnis where it sits; the other levels
+ * build an interval upwards from a random çeşni degree (or the durak).
+ */
+export function makeQuestion(level: TrainerLevel, degreeSets: number[][], edo: number, rand: () => number = Math.random): TrainerQuestion | null {
+  const pick = <T>(xs: readonly T[]) => xs[Math.floor(rand() * xs.length)];
+  if (level === 'cesni') {
+    const pairs = adjacentPairs(degreeSets);
+    if (!pairs.length) return null;
+    const [low, high] = pick(pairs);
+    const koma = komasForSteps(high - low, edo);
+    return { low, high, koma, typeId: intervalTypeFor(koma).id };
+  }
+  const degrees = Array.from(new Set(degreeSets.flat()));
+  const low = degrees.length ? pick(degrees) : 0;
+  const koma = level === 'named' ? pick(INTERVAL_TYPES).koma : 1 + Math.floor(rand() * MAX_ANY_KOMA);
+  return { low, high: low + Math.max(1, remapKomaStep(koma, edo)), koma, typeId: intervalTypeFor(koma).id };
+}
+
+// Answer by tapping the upper key
+export function checkStepAnswer(q: TrainerQuestion, step: number, edo: number): TrainerResult {
+  return { correct: step === q.high, missKoma: komasForSteps(step - q.high, edo), answer: `${komasForSteps(step - q.low, edo)} koma` };
+}
+
+// Answer by interval name
+export function checkNameAnswer(q: TrainerQuestion, typeId: string): TrainerResult {
+  const t = INTERVAL_TYPES.find(x => x.id === typeId);
+  if (!t) return { correct: false, missKoma: 0, answer: typeId };
+  return { correct: t.id === q.typeId, missKoma: t.koma - q.koma, answer: t.name };
+}
+
+// ------- Per-interval accuracy (localStorage) -------
+export type TrainerStats = Record<string, { asked: number; correct: number; missSum: number }>;
+
+const STORAGE_KEY = 'makam-klavyesi.trainerStats';
+
+export function recordResult(stats: TrainerStats, q: TrainerQuestion, r: TrainerResult): TrainerStats {
+  const cur = stats[q.typeId] ?? { asked: 0, correct: 0, missSum: 0 };
+  return {
+    ...stats,
+    [q.typeId]: { asked: cur.asked + 1, correct: cur.correct + (r.correct ? 1 : 0), missSum: cur.missSum + Math.abs(r.missKoma) },
+  };
+}
+
+export function loadTrainerStats(): TrainerStats {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const data = raw ? JSON.parse(raw) : null;
+    if (!data || typeof data !== 'object') return {};
+    const out: TrainerStats = {};
+    for (const t of INTERVAL_TYPES) {
+      const e = data[t.id];
+      if (e && [e.asked, e.correct, e.missSum].every(n => Number.isFinite(n) && n >= 0)) out[t.id] = { asked: e.asked, correct: e.correct, missSum: e.missSum };
+    }
+    return out;
+  } catch {
+    return {};
+  }
+}
+
+export function saveTrainerStats(stats: TrainerStats) {
+  try { localStorage.setItem(STORAGE_KEY, JSON.stringify(stats)); } catch { /* storage full or disabled */ }
+}
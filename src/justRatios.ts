@@ -0,0 +1,139 @@
+// Just-intonation reference markers – Pythagorean chain and prime-limit ratio sets
+
+import { centsPerStepFor } from "./edo";
+
+export type JustSetId = 'classic' | 'pythagorean' | 'limit5' | 'limit7' | 'limit11' | 'limit13';
+export type JustFilterKind = 'odd' | 'tenney';
+
+export type JustSettings = {
+  set: JustSetId;
+  filter: JustFilterKind;  // prime-limit sets only
+  bound: number;           // odd limit, Tenney height (log2 n·d) or, for 'pythagorean', fifths each way
+};
+
+export const JUST_SETS: { id: JustSetId; label: string; prime?: number }[] = [
+  { id: 'classic', label: '5-limit (12 notes)' },
+  { id: 'pythagorean', label: 'Pythagorean chain' },
+  { id: 'limit5', label: '5-limit', prime: 5 },
+  { id: 'limit7', label: '7-limit', prime: 7 },
+  { id: 'limit11', label: '11-limit', prime: 11 },
+  { id: 'limit13', label: '13-limit', prime: 13 },
+];
+
+export const DEFAULT_JUST: JustSettings = { set: 'classic', filter: 'odd', bound: 15 };
+
+// Input bounds per kind (`initial` on switching); Tenney heights above 16 would need terms past 2^16
+export const JUST_BOUNDS: Record<JustFilterKind | 'fifths', { min: number; max: number; initial: number }> = {
+  odd: { min: 1, max: 99, initial: 15 },
+  tenney: { min: 1, max: 16, initial: 8 },
+  fifths: { min: 1, max: 53, initial: 12 },
+};
+
+// Which bound a setting's number is
+export const justBoundKind = (s: JustSettings) => (s.set === 'pythagorean' ? 'fifths' : s.filter);
+
+export type JustRatio = {
+  label: string;    // "9/8", or "3¹²/2¹⁹" once the terms get long
+  cents: number;    // octave-reduced, 0 ≤ cents < 1200
+  note?: string;    // chain position or comma name
+  height: number;   // sort key: Tenney height, or fifths from 1/1 for the chain
+};
+
+export type JustMarker = JustRatio & { deviation: number };  // snapped key minus ratio, cents
+
+const CLASSIC: [number, number][] = [
+  [1, 1], [16, 15], [9, 8], [6, 5], [5, 4], [4, 3], [45, 32], [3, 2], [8, 5], [5, 3], [15, 8],
+];
+
+const COMMAS: Record<string, string> = {
+  '81/80': 'syntonic comma', '64/63': 'septimal comma', '33/32': 'undecimal quarter-tone', '1053/1024': 'tridecimal comma',
+};
+
+const SUPERSCRIPT = '⁰¹²³⁴⁵⁶⁷⁸⁹';
+const sup = (n: number) => String(n).replace(/\d/g, d => SUPERSCRIPT[Number(d)]);
+const MAX_PLAIN_TERM = 9999;
+
+const gcd = (a: number, b: number): number => (b ? gcd(b, a % b) : a);
+
+const fromTerms = (n: number, d: number): JustRatio => {
+  const label = `${n}/${d}`;
+  return { label, cents: 1200 * Math.log2(n / d), note: COMMAS[label], height: Math.log2(n * d) };
+};
+
+// Odd numbers up to `max` with no prime factor above `prime`
+function oddSmooth(prime: number, max: number): number[] {
+  const out: number[] = [];
+  for (let n = 1; n <= max; n += 2) {
+    let r = n;
+    for (const p of [3, 5, 7, 11, 13]) {
+      if (p > prime) break;
+      while (r % p === 0) r /= p;
+    }
+    if (r === 1) out.push(n);
+  }
+  return out;
+}
+
+// Octave-reduces a/b (both odd) into [1, 2)
+function reduce(a: number, b: number): [number, number] {
+  let n = a, d = b;
+  while (n >= 2 * d) d *= 2;
+  while (n < d) n *= 2;
+  return [n, d];
+}
+
+/**
+ * Chain of fifths ±`fifths` from 1/1. Twelve fifths up overshoot the octave by
+ * the Pythagorean comma, the 53-EDO koma; 53 fifths by the Mercator comma.
+ */
+function pythagoreanChain(fifths: number): JustRatio[] {
+  const out: JustRatio[] = [];
+  for (let k = -fifths; k <= fifths; k++) {
+    const twos = Math.floor(k * Math.log2(3));   // 3^k / 2^twos lands in [1, 2)
+    const cents = 1200 * (k * Math.log2(3) - twos);
+    const num = k >= 0 ? 3 ** k : 2 ** -twos;
+    const den = k >= 0 ? 2 ** twos : 3 ** -k;
+    const label = Math.max(num, den) <= MAX_PLAIN_TERM ? `${num}/${den}`
+      : k >= 0 ? `3${sup(k)}/2${sup(twos)}` : `2${sup(-twos)}/3${sup(-k)}`;
+    const comma = Math.abs(k) === 12 ? ' – Pythagorean comma (koma)' : Math.abs(k) === 53 ? ' – Mercator comma' : '';
+    out.push({ label, cents, note: k === 0 ? undefined : `${k > 0 ? '+' : ''}${k} fifths${comma}`, height: Math.abs(k) });
+  }
+  return out;
+}
+
+// Every ratio of the selected set within one octave, simplest first
+export function justRatios(s: JustSettings): JustRatio[] {
+  if (s.set === 'classic') return CLASSIC.map(([n, d]) => fromTerms(n, d));
+  if (s.set === 'pythagorean') return pythagoreanChain(s.bound).sort((x, y) => x.height - y.height);
+
+  const prime = JUST_SETS.find(x => x.id === s.set)?.prime ?? 5;
+  const odds = oddSmooth(prime, s.filter === 'odd' ? s.bound : 2 ** s.bound);
+  const out: JustRatio[] = [];
+  for (const a of odds) {
+    for (const b of odds) {
+      if (s.filter === 'tenney' && a * b > 2 ** s.bound) continue;  // n·d ≥ a·b
+      if (gcd(a, b) !== 1) continue;
+      const [n, d] = reduce(a, b);
+      if (s.filter === 'tenney' && Math.log2(n * d) > s.bound) continue;
+      out.push(fromTerms(n, d));
+    }
+  }
+  return out.sort((x, y) => x.height - y.height);
+}
+
+/**
+ * Markers per key of a range, repeating the octave so ranges below the durak
+ * or above the octave are covered. A key collects every ratio snapping to it.
+ */
+export function buildJustCellsForRange(startStep: number, endStep: number, ratios: JustRatio[], edo: number): JustMarker[][] {
+  const cps = centsPerStepFor(edo);
+  const cells: JustMarker[][] = Array.from({ length: endStep - startStep + 1 }, () => []);
+  for (let o = Math.floor(startStep / edo) - 1; o <= Math.ceil(endStep / edo); o++) {
+    for (const r of ratios) {
+      const inOctave = Math.round(r.cents / cps);
+      const abs = inOctave + o * edo;
+      if (abs >= startStep && abs <= endStep) cells[abs - startStep].push({ ...r, deviation: inOctave * cps - r.cents });
+    }
+  }
+  return cells;
+}
@@ -0,0 +1,171 @@
+// Computer-keyboard layouts – physical keys (KeyboardEvent.code) bound to degrees, koma steps or octave shifts
+
+import { remapKomaStep } from "./edo";
+
+export type KeyAction =
+  | { kind: 'degree'; row: number; degree: number }  // row 0 = Keyboard 1 (or the first dizi segment), degree from 0
+  | { kind: 'koma'; koma: number }                    // 53-koma step from step 0, remapped to the active division
+  | { kind: 'octave'; shift: number };                // moves later notes by ±1 octave
+
+export type KeyLayout = {
+  id: string;
+  name: string;
+  bindings: Record<string, KeyAction>;   // KeyboardEvent.code -> action
+  labels?: Record<string, string>;       // printed legends, for layouts the browser cannot report
+};
+
+export const MAX_OCTAVE_SHIFT = 2;
+
+// ------- Presets -------
+const HOME_ROWS = [
+  ['KeyA', 'KeyS', 'KeyD', 'KeyF', 'KeyG'],
+  ['KeyH', 'KeyJ', 'KeyK', 'KeyL', 'Semicolon'],
+  ['KeyQ', 'KeyW', 'KeyE', 'KeyR', 'KeyT'],
+  ['KeyY', 'KeyU', 'KeyI', 'KeyO', 'KeyP'],
+  ['KeyZ', 'KeyX', 'KeyC', 'KeyV', 'KeyB'],
+  ['KeyN', 'KeyM', 'Comma', 'Period', 'Slash'],
+];
+const MIDDLE_ROW = ['KeyA', 'KeyS', 'KeyD', 'KeyF', 'KeyG', 'KeyH', 'KeyJ', 'KeyK', 'KeyL', 'Semicolon', 'Quote'];
+const UPPER_ROW = ['KeyQ', 'KeyW', 'KeyE', 'KeyR', 'KeyT', 'KeyY', 'KeyU', 'KeyI', 'KeyO', 'KeyP', 'BracketLeft', 'BracketRight'];
+
+const degreeRows = (rows: string[][]): Record<string, KeyAction> =>
+  Object.fromEntries(rows.flatMap((codes, row) => codes.map((code, degree) => [code, { kind: 'degree', row, degree }])));
+
+// Turkish F legends by physical position
+const zipLegends = (codes: string[], legends: string): [string, string][] =>
+  legends.split(' ').map((l, i) => [codes[i], l]);
+const TURKISH_F: Record<string, string> = Object.fromEntries([
+  ...zipLegends(UPPER_ROW, 'F G Ğ I O D R N H P Q W'),
+  ...zipLegends(MIDDLE_ROW, 'U İ E A Ü T K M L Y Ş'),
+  ...zipLegends(['KeyZ', 'KeyX', 'KeyC', 'KeyV', 'KeyB', 'KeyN', 'KeyM', 'Comma', 'Period', 'Slash'], 'J Ö V C Ç Z S B . ,'),
+]);
+
+export const LAYOUT_PRESETS: KeyLayout[] = [
+  { id: 'preset:home', name: 'Home row degrees', bindings: degreeRows(HOME_ROWS) },
+  {
+    id: 'preset:koma',
+    name: 'Two rows chromatic koma',
+    // A fourth (22 koma) across the middle and upper rows; Z and X shift the octave
+    bindings: {
+      ...Object.fromEntries([...MIDDLE_ROW, ...UPPER_ROW].map((code, koma) => [code, { kind: 'koma', koma }])),
+      KeyZ: { kind: 'octave', shift: -1 },
+      KeyX: { kind: 'octave', shift: 1 },
+    },
+  },
+  {
+    id: 'preset:turkish-f',
+    name: 'Turkish F',
+    // Home-row degrees under U İ E A Ü / T K M L Y; Ö and Ç on the bottom row shift the octave
+    bindings: {
+      ...degreeRows([HOME_ROWS[0], HOME_ROWS[1], HOME_ROWS[2], HOME_ROWS[3]]),
+      KeyX: { kind: 'octave', shift: -1 },
+      KeyB: { kind: 'octave', shift: 1 },
+    },
+    labels: TURKISH_F,
+  },
+];
+export const DEFAULT_LAYOUT = LAYOUT_PRESETS[0];
+
+export const isPresetLayout = (l: KeyLayout) => l.id.startsWith('preset:');
+
+// ------- Resolving -------
+/**
+ * Step for a note action: degrees come from the given rows (absolute steps in
+ * the active division), koma steps are remapped. Octave actions give null.
+ */
+export function stepForAction(a: KeyAction, rows: number[][], octaveShift: number, edo: number): number | null {
+  const octave = octaveShift * edo;
+  if (a.kind === 'degree') {
+    const step = rows[a.row]?.[a.degree];
+    return step === undefined ? null : step + octave;
+  }
+  if (a.kind === 'koma') return remapKomaStep(a.koma, edo) + octave;
+  return null;
+}
+
+// Legend for a code: the layout's own, then what the browser reports, then the code's US name
+export function keyLegend(code: string, layout: KeyLayout, browserMap: Record<string, string>): string {
+  const own = layout.labels?.[code] ?? browserMap[code];
+  if (own) return own.toLocaleUpperCase();
+  const m = /^(?:Key|Digit|Numpad)(.+)$/.exec(code);
+  if (m) return m[1];
+  const named: Record<string, string> = {
+    Semicolon: ';', Quote: "'", Comma: ',', Period: '.', Slash: '/', Backslash: '\\', IntlBackslash: '<',
+    BracketLeft: '[', BracketRight: ']', Minus: '-', Equal: '=', Backquote: '`', Space: '␣',
+  };
+  return named[code] ?? code;
+}
+
+// e.g. "Keyboard 2 degree 3", "koma 14", "octave +1"
+export function describeAction(a: KeyAction): string {
+  if (a.kind === 'degree') return `${a.row < 2 ? `Keyboard ${a.row + 1}` : `row ${a.row + 1}`} degree ${a.degree + 1}`;
+  if (a.kind === 'koma') return `koma ${a.koma}`;
+  return `octave ${a.shift > 0 ? '+' : ''}${a.shift}`;
+}
+
+// Keys bound to each degree of a row, for the hotkey hints (degree order)
+export function rowLegends(layout: KeyLayout, row: number, browserMap: Record<string, string>): string[] {
+  const out: string[] = [];
+  for (const [code, a] of Object.entries(layout.bindings)) {
+    if (a.kind === 'degree' && a.row === row) out[a.degree] = keyLegend(code, layout, browserMap);
+  }
+  return Array.from(out, l => l ?? '·');
+}
+
+/**
+ * The browser's own legends for the user's layout (AZERTY, Turkish Q, …)
+ * where the Keyboard Map API exists; empty elsewhere.
+ */
+export async function readBrowserLayout(): Promise<Record<string, string>> {
+  const kb = (navigator as Navigator & { keyboard?: { getLayoutMap?: () => Promise<Map<string, string>> } }).keyboard;
+  try {
+    const map = await kb?.getLayoutMap?.();
+    return map ? Object.fromEntries(map) : {};
+  } catch {
+    return {};
+  }
+}
+
+// ------- Saved layouts (localStorage) -------
+export type LayoutStore = { active: KeyLayout; saved: KeyLayout[] };
+
+const STORAGE_KEY = 'makam-klavyesi.keyLayouts';
+
+const isAction = (a: unknown): a is KeyAction => {
+  if (!a || typeof a !== 'object') return false;
+  const x = a as Record<string, unknown>;
+  const int = (v: unknown) => Number.isInteger(v);
+  if (x.kind === 'degree') return int(x.row) && int(x.degree) && (x.row as number) >= 0 && (x.degree as number) >= 0;
+  if (x.kind === 'koma') return int(x.koma);
+  if (x.kind === 'octave') return x.shift === 1 || x.shift === -1;
+  return false;
+};
+
+function toLayout(raw: unknown): KeyLayout | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const r = raw as Record<string, unknown>;
+  if (typeof r.id !== 'string' || typeof r.name !== 'string' || !r.bindings || typeof r.bindings !== 'object') return null;
+  const bindings: Record<string, KeyAction> = {};
+  for (const [code, a] of Object.entries(r.bindings)) if (isAction(a)) bindings[code] = a;
+  const labels = r.labels && typeof r.labels === 'object'
+    ? Object.fromEntries(Object.entries(r.labels).filter(([, v]) => typeof v === 'string')) as Record<string, string>
+    : undefined;
+  return { id: r.id, name: r.name, bindings, labels };
+}
+
+export function loadLayoutStore(): LayoutStore {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const data = raw ? JSON.parse(raw) : null;
+    const saved = Array.isArray(data?.saved) ? data.saved.map(toLayout).filter((l: KeyLayout | null): l is KeyLayout => !!l) : [];
+    return { active: toLayout(data?.active) ?? DEFAULT_LAYOUT, saved };
+  } catch {
+    return { active: DEFAULT_LAYOUT, saved: [] };
+  }
+}
+
+export function saveLayoutStore(store: LayoutStore) {
+  try { localStorage.setItem(STORAGE_KEY, JSON.stringify(store)); } catch { /* storage full or disabled */ }
+}
+
+export const newLayoutId = () => `user:${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
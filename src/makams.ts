@@ -0,0 +1,95 @@
+// Makam catalogue – each makam as lower çeşni + upper çeşni (53-koma steps, durak = 0)
+
+export type MakamDef = {
+  id: string;
+  label: string;
+  lower: string;        // çeşni id for Keyboard 1 (on the durak)
+  upper: string;        // çeşni id for Keyboard 2 (stacked on the joint)
+  join: number;         // absolute step where the upper çeşni starts
+  joinName: string;     // perde name of the joint
+  durak: number;        // tonic (absolute step)
+  guclu: number;        // dominant (absolute step)
+  transpose12: number;  // usual starting pitch, semitones from D4
+  seyir: string;        // short melodic-progression description
+};
+
+/**
+ * Joints always sit on the highest step of the lower çeşni, so that
+ * Keyboard 2 lines up with Keyboard 1 without extra offsets.
+ */
+export const MAKAMS: MakamDef[] = [
+  {
+    id: 'rast', label: 'Rast',
+    lower: 'rast_penta', upper: 'rast_tetra', join: 31, joinName: 'Neva',
+    durak: 0, guclu: 31, transpose12: 5,
+    seyir: 'Çıkıcı. Starts around the durak or güçlü, shows Rast pentachord, rests on Neva, then descends with Acem (Eviç lowered) and finishes on Rast.',
+  },
+  {
+    id: 'ussak', label: 'Uşşak',
+    lower: 'ussak_tetra', upper: 'buselik_penta', join: 22, joinName: 'Neva',
+    durak: 0, guclu: 22, transpose12: 7,
+    seyir: 'Çıkıcı. Opens around Dügah, rises to a half cadence on Neva, touches the upper Buselik pentachord and returns to Dügah.',
+  },
+  {
+    id: 'huseyni', label: 'Hüseyni',
+    lower: 'huseyni_penta', upper: 'ussak_tetra', join: 31, joinName: 'Hüseyni',
+    durak: 0, guclu: 31, transpose12: 7,
+    seyir: 'İnici-çıkıcı. Starts around Hüseyni, uses Eviç ascending and Acem descending, half cadence on Neva, finishes on Dügah.',
+  },
+  {
+    id: 'hicaz', label: 'Hicaz',
+    lower: 'hicaz_tetra', upper: 'rast_penta', join: 22, joinName: 'Neva',
+    durak: 0, guclu: 22, transpose12: 7,
+    seyir: 'İnici-çıkıcı. Starts around Neva, stresses the augmented second Dik Kürdi–Nim Hicaz, descends to Dügah.',
+  },
+  {
+    id: 'kurdi', label: 'Kürdi',
+    lower: 'kurdi_tetra', upper: 'buselik_penta', join: 22, joinName: 'Neva',
+    durak: 0, guclu: 22, transpose12: 7,
+    seyir: 'Çıkıcı. Rises from Dügah through Kürdi to Neva, may show the upper Buselik pentachord, descends to Dügah.',
+  },
+  {
+    id: 'segah', label: 'Segah',
+    lower: 'segah_penta', upper: 'hicaz_tetra', join: 31, joinName: 'Eviç',
+    durak: 0, guclu: 14, transpose12: 9,
+    seyir: 'Çıkıcı. Moves around Segah, rises to Neva for a half cadence, may touch the Hicaz tetrachord on Eviç, finishes on Segah.',
+  },
+  {
+    id: 'huzzam', label: 'Hüzzam',
+    lower: 'segah_tri', upper: 'hicaz_penta', join: 14, joinName: 'Neva',
+    durak: 0, guclu: 14, transpose12: 9,
+    seyir: 'İnici-çıkıcı. Opens around Neva with the Hicaz pentachord, descends through Çargah and finishes on Segah.',
+  },
+  {
+    id: 'nikriz', label: 'Nikriz',
+    lower: 'nikriz_penta', upper: 'buselik_tetra', join: 31, joinName: 'Neva',
+    durak: 0, guclu: 31, transpose12: 5,
+    seyir: 'Çıkıcı. Starts around Rast, shows the Nikriz pentachord, rests on Neva and returns to Rast.',
+  },
+  {
+    id: 'saba', label: 'Saba',
+    lower: 'saba_tri', upper: 'hicaz_penta', join: 13, joinName: 'Çargah',
+    durak: 0, guclu: 13, transpose12: 7,
+    seyir: 'Çıkıcı. Circles Dügah–Segah–Çargah, emphasises Çargah as güçlü and the lowered Hicaz perde, finishes on Dügah.',
+  },
+  {
+    id: 'karcigar', label: 'Karcığar',
+    lower: 'ussak_tetra', upper: 'hicaz_penta', join: 22, joinName: 'Neva',
+    durak: 0, guclu: 22, transpose12: 7,
+    seyir: 'İnici-çıkıcı. Shows the Hicaz pentachord on Neva first, then descends with Uşşak to Dügah.',
+  },
+  {
+    id: 'buselik', label: 'Buselik',
+    lower: 'buselik_penta', upper: 'kurdi_tetra', join: 31, joinName: 'Hüseyni',
+    durak: 0, guclu: 31, transpose12: 7,
+    seyir: 'Çıkıcı. Rises from Dügah through the Buselik pentachord to Hüseyni, touches Kürdi above and returns to Dügah.',
+  },
+  {
+    id: 'cargah', label: 'Çargah',
+    lower: 'cargah_penta', upper: 'cargah_tetra', join: 31, joinName: 'Gerdaniye',
+    durak: 0, guclu: 31, transpose12: -2,
+    seyir: 'Çıkıcı. Moves upward through the Çargah pentachord, half cadence on Gerdaniye, finishes on Çargah.',
+  },
+];
+
+export const findMakam = (id: string) => MAKAMS.find(m => m.id === id) ?? null;
@@ -0,0 +1,77 @@
+// Master bus – every voice → dry/reverb mix → soft limiter → master volume → speakers
+
+export type MasterBusSettings = {
+  volume: number;         // 0..1 after the limiter
+  reverb: number;         // wet mix 0..1 (0 = off)
+  reverbSeconds: number;  // impulse response length
+};
+
+export const DEFAULT_BUS: MasterBusSettings = { volume: 0.8, reverb: 0, reverbSeconds: 2.2 };
+
+/**
+ * Stereo impulse response generated locally: decorrelated noise per channel
+ * under an exponential decay that reaches -60 dB at `seconds`, with a short
+ * pre-delay so the dry attack stays clear.
+ */
+export function buildImpulseResponse(ctx: BaseAudioContext, seconds: number, rand: () => number = Math.random): AudioBuffer {
+  const rate = ctx.sampleRate;
+  const length = Math.max(1, Math.round(seconds * rate));
+  const preDelay = Math.round(0.012 * rate);
+  const buf = ctx.createBuffer(2, length, rate);
+  for (let ch = 0; ch < 2; ch++) {
+    const d = buf.getChannelData(ch);
+    for (let i = preDelay; i < length; i++) {
+      d[i] = (rand() * 2 - 1) * Math.pow(10, (-3 * i) / length);
+    }
+  }
+  return buf;
+}
+
+export class MasterBus {
+  ctx: BaseAudioContext;
+  input: GainNode;
+  dry: GainNode;
+  wet: GainNode;
+  convolver: ConvolverNode;
+  limiter: DynamicsCompressorNode;
+  output: GainNode;
+  reverbSeconds = 0;
+
+  constructor(ctx: BaseAudioContext, settings: MasterBusSettings = DEFAULT_BUS) {
+    this.ctx = ctx;
+    this.input = ctx.createGain();
+    this.dry = ctx.createGain();
+    this.wet = ctx.createGain();
+    this.convolver = ctx.createConvolver();
+
+    // Soft limiter: high ratio above -6 dBFS with a wide knee and a fast attack
+    this.limiter = ctx.createDynamicsCompressor();
+    this.limiter.threshold.value = -6;
+    this.limiter.knee.value = 6;
+    this.limiter.ratio.value = 20;
+    this.limiter.attack.value = 0.003;
+    this.limiter.release.value = 0.25;
+
+    this.output = ctx.createGain();
+
+    this.input.connect(this.dry).connect(this.limiter);
+    this.input.connect(this.convolver).connect(this.wet).connect(this.limiter);
+    this.limiter.connect(this.output).connect(ctx.destination);
+    this.apply(settings, false);
+  }
+
+  // `glide` smooths live slider moves; the initial settings apply at once
+  apply(settings: MasterBusSettings, glide = true) {
+    const now = this.ctx.currentTime;
+    const set = (p: AudioParam, v: number) => (glide ? p.setTargetAtTime(v, now, 0.02) : p.setValueAtTime(v, now));
+    const mix = Math.min(1, Math.max(0, settings.reverb));
+    // Equal-power crossfade keeps the level steady while the mix moves
+    set(this.dry.gain, Math.cos((mix * Math.PI) / 2));
+    set(this.wet.gain, Math.sin((mix * Math.PI) / 2));
+    set(this.output.gain, Math.min(1, Math.max(0, settings.volume)));
+    if (mix > 0 && settings.reverbSeconds !== this.reverbSeconds) {
+      this.convolver.buffer = buildImpulseResponse(this.ctx, settings.reverbSeconds);
+      this.reverbSeconds = settings.reverbSeconds;
+    }
+  }
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { listMidiInputs, parseMidiMessage, requestMidiAccess, stepForMidiNote, velocityToGain } from "./midiInput";
+
+type StubNavigator = Pick<Navigator, 'requestMIDIAccess'>;
+
+describe('parseMidiMessage', () => {
+  it('reads note on, and note on at velocity 0 as note off', () => {
+    expect(parseMidiMessage([0x90, 60, 100])).toEqual({ type: 'noteon', note: 60, velocity: 100 });
+    expect(parseMidiMessage([0x93, 62, 0])).toEqual({ type: 'noteoff', note: 62 });
+  });
+
+  it('reads note off on any channel', () => {
+    expect(parseMidiMessage([0x85, 64, 40])).toEqual({ type: 'noteoff', note: 64 });
+  });
+
+  it('reads CC64 as the sustain pedal', () => {
+    expect(parseMidiMessage([0xb0, 64, 127])).toEqual({ type: 'sustain', on: true });
+    expect(parseMidiMessage([0xb0, 64, 63])).toEqual({ type: 'sustain', on: false });
+    expect(parseMidiMessage([0xb0, 7, 127])).toBeNull();
+  });
+
+  it('ignores pitch bend and short or missing messages', () => {
+    expect(parseMidiMessage([0xe0, 0, 64])).toBeNull();
+    expect(parseMidiMessage([0xf8])).toBeNull();
+    expect(parseMidiMessage(null)).toBeNull();
+  });
+});
+
+describe('stepForMidiNote', () => {
+  const degrees = [0, 9, 17, 22, 31];
+
+  it('walks the çeşni degrees on white keys from middle C', () => {
+    expect([60, 62, 64, 65, 67].map(n => stepForMidiNote(n, 'degrees', degrees))).toEqual(degrees);
+    expect(stepForMidiNote(61, 'degrees', degrees)).toBeNull();
+    expect(stepForMidiNote(69, 'degrees', degrees)).toBeNull();
+  });
+
+  it('plays one koma step per semitone in chromatic mode', () => {
+    expect(stepForMidiNote(60, 'chromatic', degrees)).toBe(0);
+    expect(stepForMidiNote(61, 'chromatic', degrees)).toBe(1);
+    expect(stepForMidiNote(113, 'chromatic', degrees)).toBe(53);
+  });
+
+  it('leaves notes below C4 unmapped', () => {
+    expect(stepForMidiNote(59, 'degrees', degrees)).toBeNull();
+    expect(stepForMidiNote(48, 'degrees', degrees)).toBeNull();
+    expect(stepForMidiNote(59, 'chromatic', degrees)).toBeNull();
+  });
+
+  it('follows a different reference note', () => {
+    expect(stepForMidiNote(50, 'degrees', degrees, 48)).toBe(9);
+    expect(stepForMidiNote(50, 'chromatic', degrees, 48)).toBe(2);
+  });
+});
+
+describe('velocityToGain', () => {
+  it('scales the gain quadratically and clamps the velocity', () => {
+    expect(velocityToGain(127, 0.5)).toBe(0.5);
+    expect(velocityToGain(0, 0.5)).toBe(0);
+    expect(velocityToGain(64, 1)).toBeCloseTo((64 / 127) ** 2, 10);
+    expect(velocityToGain(200, 0.3)).toBe(0.3);
+  });
+});
+
+describe('requestMidiAccess', () => {
+  it('resolves null when the browser has no Web MIDI', async () => {
+    await expect(requestMidiAccess({} as StubNavigator)).resolves.toBeNull();
+  });
+
+  it('passes the SysEx flag through and returns the access object', async () => {
+    const access = { inputs: new Map([['in-1', { id: 'in-1', name: 'Keys' }], ['in-2', { id: 'in-2', name: '' }]]) } as unknown as MIDIAccess;
+    let options: MIDIOptions | undefined;
+    const nav: StubNavigator = { requestMIDIAccess: async (o?: MIDIOptions) => { options = o; return access; } };
+    await expect(requestMidiAccess(nav, true)).resolves.toBe(access);
+    expect(options).toEqual({ sysex: true });
+    expect(listMidiInputs(access)).toEqual([{ id: 'in-1', name: 'Keys' }, { id: 'in-2', name: 'in-2' }]);
+  });
+
+  it('rejects when permission is denied', async () => {
+    const nav: StubNavigator = { requestMIDIAccess: () => Promise.reject(new Error('SecurityError')) };
+    await expect(requestMidiAccess(nav)).rejects.toThrow('SecurityError');
+  });
+});
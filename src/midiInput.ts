@@ -0,0 +1,73 @@
+// Web MIDI input – message parsing and note → koma step mapping
+
+export type MidiMapMode = 'degrees' | 'chromatic';
+
+export type MidiInputEvent =
+  | { type: 'noteon'; note: number; velocity: number }
+  | { type: 'noteoff'; note: number }
+  | { type: 'sustain'; on: boolean };
+
+export type MidiInputInfo = { id: string; name: string };
+
+// Middle C plays the durak (step 0) in both modes
+export const MIDI_REF_NOTE = 60;
+
+const WHITE_PCS = [0, 2, 4, 5, 7, 9, 11];
+
+// Decode a raw MIDI message; anything other than note on/off and CC64 is ignored
+export function parseMidiMessage(data: ArrayLike<number> | null | undefined): MidiInputEvent | null {
+  if (!data || data.length < 3) return null;
+  const status = data[0] & 0xf0;
+  const d1 = data[1] & 0x7f;
+  const d2 = data[2] & 0x7f;
+  if (status === 0x90) return d2 > 0 ? { type: 'noteon', note: d1, velocity: d2 } : { type: 'noteoff', note: d1 };
+  if (status === 0x80) return { type: 'noteoff', note: d1 };
+  if (status === 0xb0 && d1 === 64) return { type: 'sustain', on: d2 >= 64 };
+  return null;
+}
+
+// Signed white-key index relative to refNote (which must be a white key); null for black keys
+function whiteIndex(note: number, refNote: number): number | null {
+  const pc = ((note % 12) + 12) % 12;
+  const idx = WHITE_PCS.indexOf(pc);
+  if (idx === -1) return null;
+  const refIdx = WHITE_PCS.indexOf(((refNote % 12) + 12) % 12);
+  const oct = Math.floor(note / 12) - Math.floor(refNote / 12);
+  return oct * 7 + idx - refIdx;
+}
+
+/**
+ * degrees:   white keys from refNote walk the sorted çeşni degrees of both keyboards.
+ * chromatic: each semitone key is one koma step from refNote.
+ */
+export function stepForMidiNote(note: number, mode: MidiMapMode, degreeSteps: number[], refNote = MIDI_REF_NOTE): number | null {
+  if (mode === 'chromatic') {
+    const step = note - refNote;
+    return step >= 0 ? step : null;
+  }
+  const wi = whiteIndex(note, refNote);
+  if (wi === null || wi < 0 || wi >= degreeSteps.length) return null;
+  return degreeSteps[wi];
+}
+
+// Velocity 1..127 scales the gain slider value (quadratic feels closer to loudness)
+export function velocityToGain(velocity: number, gain: number): number {
+  const v = Math.max(0, Math.min(127, velocity)) / 127;
+  return gain * v * v;
+}
+
+// Wraps navigator.requestMIDIAccess so it can be mocked; resolves null when unsupported
+export async function requestMidiAccess(
+  nav: Pick<Navigator, 'requestMIDIAccess'> | undefined = navigator,
+  sysex = false,
+): Promise<MIDIAccess | null> {
+  if (!nav || typeof nav.requestMIDIAccess !== 'function') return null;
+  return nav.requestMIDIAccess({ sysex });
+}
+
+export function listMidiInputs(access: MIDIAccess | null): MidiInputInfo[] {
+  if (!access) return [];
+  const out: MidiInputInfo[] = [];
+  access.inputs.forEach((input) => out.push({ id: input.id, name: input.name || input.id }));
+  return out;
+}
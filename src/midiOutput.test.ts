@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+import {
+  ChannelAllocator, MEMBER_CHANNELS, type MidiBytes, MidiOutEngine, MidiVoice,
+  bendForSemis, mtsSingleNoteSysex, noteAndBendForFreq, noteOffMsg, pitchBendRangeMsgs,
+} from "./midiOutput";
+
+const cents = (freq: number, c: number) => freq * Math.pow(2, c / 1200);
+
+// Output port stand-in that keeps everything sent to it
+const sink = () => {
+  const sent: MidiBytes[] = [];
+  return { sent, send: (data: MidiBytes) => { sent.push(data); } };
+};
+
+describe('noteAndBendForFreq', () => {
+  it('puts A4 on note 69 with a centred bend', () => {
+    expect(noteAndBendForFreq(440, 2)).toEqual({ note: 69, bend: 8192, cents: 0 });
+  });
+
+  it('bends up or down from the nearest 12-TET note', () => {
+    const up = noteAndBendForFreq(cents(440, 25), 2);
+    expect(up.note).toBe(69);
+    expect(up.bend).toBe(9216);
+    expect(up.cents).toBeCloseTo(25, 6);
+    const down = noteAndBendForFreq(cents(440, -30), 2);
+    expect(down.note).toBe(69);
+    expect(down.bend).toBe(6963);
+    // Past the half-semitone the neighbouring note takes over
+    expect(noteAndBendForFreq(cents(440, 70), 2)).toMatchObject({ note: 70, bend: 6963 });
+  });
+
+  it('scales the bend with the bend range', () => {
+    expect(noteAndBendForFreq(cents(440, 25), 48).bend).toBe(Math.round(8192 + (0.25 / 48) * 8192));
+  });
+});
+
+describe('bendForSemis', () => {
+  it('clamps at the ends of the 14-bit range', () => {
+    expect(bendForSemis(2, 2)).toBe(16383);
+    expect(bendForSemis(3, 2)).toBe(16383);
+    expect(bendForSemis(-2, 2)).toBe(0);
+    expect(bendForSemis(-3, 2)).toBe(0);
+  });
+});
+
+describe('pitchBendRangeMsgs', () => {
+  it('sends RPN 0 in semitones and cents, then the null RPN', () => {
+    expect(pitchBendRangeMsgs(1, 2)).toEqual([
+      [0xb1, 101, 0], [0xb1, 100, 0], [0xb1, 6, 2], [0xb1, 38, 0], [0xb1, 101, 127], [0xb1, 100, 127],
+    ]);
+    expect(pitchBendRangeMsgs(0, 2.5)[3]).toEqual([0xb0, 38, 50]);
+  });
+});
+
+describe('mtsSingleNoteSysex', () => {
+  it('encodes the key and its frequency as semitone plus 14-bit fraction', () => {
+    expect(mtsSingleNoteSysex(69, 440)).toEqual([0xf0, 0x7f, 0x7f, 0x08, 0x02, 0, 1, 69, 69, 0, 0, 0xf7]);
+    expect(mtsSingleNoteSysex(60, cents(440, 50)).slice(7, 11)).toEqual([60, 69, 0x40, 0]);
+  });
+});
+
+describe('ChannelAllocator', () => {
+  it('prefers free channels and reuses released ones', () => {
+    const alloc = new ChannelAllocator([1, 2, 3]);
+    expect([alloc.allocate(), alloc.allocate()]).toEqual([1, 2]);
+    alloc.release(1);
+    expect(alloc.allocate()).toBe(3);
+    expect(alloc.allocate()).toBe(1);
+  });
+
+  it('round-robins over busy channels when all are taken', () => {
+    const alloc = new ChannelAllocator([1, 2]);
+    alloc.allocate(); alloc.allocate();
+    expect([alloc.allocate(), alloc.allocate()]).toEqual([1, 2]);
+  });
+});
+
+describe('MidiVoice', () => {
+  it('sets the bend before the note on its own channel', () => {
+    const out = sink();
+    const engine = new MidiOutEngine(out, 'multi', 2);
+    out.sent.length = 0;
+    const v = new MidiVoice(engine, cents(440, 25), 100);
+    expect(out.sent).toEqual([[0xe0 | v.channel, 0, 72], [0x90 | v.channel, 69, 100]]);
+  });
+
+  it('re-strikes when a retune passes the bend range', () => {
+    const out = sink();
+    const engine = new MidiOutEngine(out, 'multi', 2);
+    const v = new MidiVoice(engine, 440, 100);
+    out.sent.length = 0;
+    v.setFrequency(cents(440, 150));
+    expect(out.sent).toEqual([[0xe0 | v.channel, 0, 112]]);
+    out.sent.length = 0;
+    v.setFrequency(cents(440, 300));
+    expect(out.sent).toEqual([noteOffMsg(v.channel, 69), [0xe0 | v.channel, 0, 64], [0x90 | v.channel, 72, 100]]);
+    expect(v.note).toBe(72);
+  });
+
+  it('silences the voice whose channel is stolen', () => {
+    const out = sink();
+    const engine = new MidiOutEngine(out, 'mpe', 2);
+    const voices = MEMBER_CHANNELS.map((_, i) => new MidiVoice(engine, 220 * Math.pow(2, i / 12), 100));
+    const victim = voices[0];
+    out.sent.length = 0;
+    const thief = new MidiVoice(engine, 880, 100);
+    expect(thief.channel).toBe(victim.channel);
+    expect(out.sent[0]).toEqual(noteOffMsg(victim.channel, victim.note));
+    expect(victim.live).toBe(false);
+    // The stolen voice no longer touches the channel, and its stop keeps the thief's claim
+    out.sent.length = 0;
+    victim.setFrequency(300);
+    victim.setGain(0.1);
+    victim.stop(0);
+    expect(out.sent).toEqual([]);
+    expect(engine.alloc.busy.has(thief.channel)).toBe(true);
+  });
+
+  it('leaves channel volume alone in MTS mode', () => {
+    const out = sink();
+    const engine = new MidiOutEngine(out, 'mts', 2);
+    const a = new MidiVoice(engine, 440, 100);
+    const b = new MidiVoice(engine, 440, 100);
+    expect(b.note).not.toBe(a.note);
+    out.sent.length = 0;
+    a.setGain(0.1);
+    expect(out.sent).toEqual([]);
+  });
+});
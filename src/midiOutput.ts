@@ -0,0 +1,209 @@
+// Microtonal MIDI output – 12-TET note + pitch bend per channel, MPE, or MTS SysEx
+import type { MidiInputInfo } from "./midiInput";
+
+export type MidiOutMode = 'mpe' | 'multi' | 'mts';
+export type MidiBytes = number[];
+
+const A4_MIDI = 69;
+const A4_FREQ = 440;
+const BEND_CENTER = 8192;
+const BEND_MAX = 16383;
+
+const clamp = (v: number, lo: number, hi: number) => Math.max(lo, Math.min(hi, v));
+
+// Fractional MIDI note number for a frequency
+export const midiFloatForFreq = (freq: number) => A4_MIDI + 12 * Math.log2(freq / A4_FREQ);
+
+/**
+ * Nearest 12-TET note plus the 14-bit bend that reaches `freq` within ±bendRange semitones.
+ * `cents` is the offset the bend has to cover (before quantisation).
+ */
+export function noteAndBendForFreq(freq: number, bendRange: number): { note: number; bend: number; cents: number } {
+  const m = midiFloatForFreq(freq);
+  const note = clamp(Math.round(m), 0, 127);
+  const semis = m - note;
+  return { note, bend: bendForSemis(semis, bendRange), cents: semis * 100 };
+}
+
+// 14-bit bend value for an offset in semitones (clamped to the bend range)
+export function bendForSemis(semis: number, bendRange: number): number {
+  const range = Math.max(1e-6, bendRange);
+  return clamp(Math.round(BEND_CENTER + (semis / range) * BEND_CENTER), 0, BEND_MAX);
+}
+
+// ----- Channel voice messages (channel is 0-based) -----
+export const noteOnMsg = (ch: number, note: number, vel: number): MidiBytes => [0x90 | (ch & 0x0f), note & 0x7f, clamp(vel, 1, 127)];
+export const noteOffMsg = (ch: number, note: number): MidiBytes => [0x80 | (ch & 0x0f), note & 0x7f, 0];
+export const pitchBendMsg = (ch: number, bend: number): MidiBytes => [0xe0 | (ch & 0x0f), bend & 0x7f, (bend >> 7) & 0x7f];
+const ccMsg = (ch: number, cc: number, v: number): MidiBytes => [0xb0 | (ch & 0x0f), cc & 0x7f, v & 0x7f];
+
+// RPN 0 (pitch-bend sensitivity) in whole semitones + cents, followed by RPN null
+export function pitchBendRangeMsgs(ch: number, semis: number): MidiBytes[] {
+  const whole = clamp(Math.floor(semis), 0, 127);
+  const centsPart = clamp(Math.round((semis - whole) * 100), 0, 99);
+  return [ccMsg(ch, 101, 0), ccMsg(ch, 100, 0), ccMsg(ch, 6, whole), ccMsg(ch, 38, centsPart), ccMsg(ch, 101, 127), ccMsg(ch, 100, 127)];
+}
+
+// MPE Configuration Message (RPN 6) for a lower zone managed on channel 1
+export function mpeConfigMsgs(memberChannels: number): MidiBytes[] {
+  return [ccMsg(0, 101, 0), ccMsg(0, 100, 6), ccMsg(0, 6, clamp(memberChannels, 0, 15)), ccMsg(0, 101, 127), ccMsg(0, 100, 127)];
+}
+
+// ----- MIDI Tuning Standard -----
+// Frequency data: semitone number + 14-bit fraction of a semitone
+export function mtsFrequencyBytes(freq: number): [number, number, number] {
+  const m = clamp(midiFloatForFreq(freq), 0, 127.99993);
+  let semi = Math.floor(m);
+  let frac = Math.round((m - semi) * 16384);
+  if (frac >= 16384) { semi += 1; frac = 0; }
+  return [clamp(semi, 0, 127), (frac >> 7) & 0x7f, frac & 0x7f];
+}
+
+// Real-time single note tuning change (MTS, sub-ID 08 02)
+export function mtsSingleNoteSysex(key: number, freq: number, deviceId = 0x7f, program = 0): MidiBytes {
+  return [0xf0, 0x7f, deviceId & 0x7f, 0x08, 0x02, program & 0x7f, 1, key & 0x7f, ...mtsFrequencyBytes(freq), 0xf7];
+}
+
+// Round-robin over channels, preferring ones with no sounding note
+export class ChannelAllocator {
+  channels: number[];
+  busy = new Set<number>();
+  next = 0;
+
+  constructor(channels: number[]) { this.channels = channels; }
+
+  allocate(): number {
+    const n = this.channels.length;
+    for (let i = 0; i < n; i++) {
+      const ch = this.channels[(this.next + i) % n];
+      if (!this.busy.has(ch)) { this.next = (this.next + i + 1) % n; this.busy.add(ch); return ch; }
+    }
+    const ch = this.channels[this.next];
+    this.next = (this.next + 1) % n;
+    return ch;
+  }
+  release(ch: number) { this.busy.delete(ch); }
+}
+
+// Channels 2–16 as 0-based indices
+export const MEMBER_CHANNELS = Array.from({ length: 15 }, (_, i) => i + 1);
+
+type MidiSink = { send: (data: MidiBytes) => void };
+
+/**
+ * Holds the output port and per-mode state; MidiVoice instances talk to it.
+ * In 'mts' mode every note goes out on channel 1 with its key retuned by SysEx.
+ */
+export class MidiOutEngine {
+  out: MidiSink;
+  mode: MidiOutMode;
+  bendRange: number;
+  alloc = new ChannelAllocator(MEMBER_CHANNELS);
+  mtsKeys = new Set<number>();
+  // Voice currently sounding on each member channel, so a stolen channel can be silenced first
+  channelVoices = new Map<number, MidiVoice>();
+
+  constructor(out: MidiSink, mode: MidiOutMode, bendRange: number) {
+    this.out = out; this.mode = mode; this.bendRange = bendRange;
+    this.sendSetup();
+  }
+
+  sendSetup() {
+    if (this.mode === 'mts') return;
+    if (this.mode === 'mpe') mpeConfigMsgs(MEMBER_CHANNELS.length).forEach(m => this.out.send(m));
+    MEMBER_CHANNELS.forEach(ch => pitchBendRangeMsgs(ch, this.bendRange).forEach(m => this.out.send(m)));
+  }
+
+  // Nearest free key for MTS, searching outward from the 12-TET neighbour
+  claimMtsKey(freq: number): number {
+    const home = clamp(Math.round(midiFloatForFreq(freq)), 0, 127);
+    for (let d = 0; d < 128; d++) {
+      for (const k of [home + d, home - d]) {
+        if (k >= 0 && k <= 127 && !this.mtsKeys.has(k)) { this.mtsKeys.add(k); return k; }
+      }
+    }
+    return home;
+  }
+
+  // Hand a channel to `voice`; whatever still sounds there is cut off before the new bend goes out
+  claimChannel(voice: MidiVoice): number {
+    const ch = this.alloc.allocate();
+    this.channelVoices.get(ch)?.silence();
+    this.channelVoices.set(ch, voice);
+    return ch;
+  }
+  releaseChannel(voice: MidiVoice) {
+    if (this.channelVoices.get(voice.channel) !== voice) return;
+    this.channelVoices.delete(voice.channel);
+    this.alloc.release(voice.channel);
+  }
+}
+
+export class MidiVoice {
+  engine: MidiOutEngine;
+  channel: number;
+  note: number;
+  // Cleared when the channel is stolen; a dead voice sends nothing more
+  live = true;
+
+  constructor(engine: MidiOutEngine, freq: number, velocity: number) {
+    this.engine = engine;
+    if (engine.mode === 'mts') {
+      this.channel = 0;
+      this.note = engine.claimMtsKey(freq);
+      engine.out.send(mtsSingleNoteSysex(this.note, freq));
+    } else {
+      this.channel = engine.claimChannel(this);
+      const { note, bend } = noteAndBendForFreq(freq, engine.bendRange);
+      this.note = note;
+      engine.out.send(pitchBendMsg(this.channel, bend));
+    }
+    engine.out.send(noteOnMsg(this.channel, this.note, velocity));
+  }
+
+  setFrequency(f: number) {
+    if (!this.live) return;
+    if (this.engine.mode === 'mts') { this.engine.out.send(mtsSingleNoteSysex(this.note, f)); return; }
+    const offset = midiFloatForFreq(f) - this.note;
+    if (Math.abs(offset) <= this.engine.bendRange) {
+      this.engine.out.send(pitchBendMsg(this.channel, bendForSemis(offset, this.engine.bendRange)));
+      return;
+    }
+    // Out of bend reach from the held note: re-strike on the same channel
+    const { note, bend } = noteAndBendForFreq(f, this.engine.bendRange);
+    this.engine.out.send(noteOffMsg(this.channel, this.note));
+    this.engine.out.send(pitchBendMsg(this.channel, bend));
+    this.engine.out.send(noteOnMsg(this.channel, note, 100));
+    this.note = note;
+  }
+  // CC7 is per channel; in MTS mode every note shares channel 1, so gain stays at the note-on velocity
+  setGain(g: number) {
+    if (!this.live || this.engine.mode === 'mts') return;
+    this.engine.out.send(ccMsg(this.channel, 7, Math.round(clamp(g / 0.6, 0, 1) * 127)));
+  }
+  setWaveform() { /* timbre belongs to the external synth */ }
+
+  // Note off without giving the channel back (it already belongs to the voice that stole it)
+  silence() {
+    if (!this.live) return;
+    this.engine.out.send(noteOffMsg(this.channel, this.note));
+    this.live = false;
+  }
+
+  stop(release: number, onEnded?: () => void) {
+    if (this.live) {
+      this.engine.out.send(noteOffMsg(this.channel, this.note));
+      if (this.engine.mode === 'mts') this.engine.mtsKeys.delete(this.note);
+      else this.engine.releaseChannel(this);
+      this.live = false;
+    }
+    setTimeout(() => onEnded?.(), Math.max(20, release * 1000));
+  }
+}
+
+export function listMidiOutputs(access: MIDIAccess | null): MidiInputInfo[] {
+  if (!access) return [];
+  const out: MidiInputInfo[] = [];
+  access.outputs.forEach((o) => out.push({ id: o.id, name: o.name || o.id }));
+  return out;
+}
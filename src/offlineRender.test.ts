@@ -0,0 +1,171 @@
+import { describe, expect, it } from "vitest";
+import { encodeWav, parseStepSequence, peakLevel, renderEvents } from "./offlineRender";
+import { DEFAULT_ADSR } from "./voice";
+
+const RATE = 8000;
+
+// Minimal stand-in for the Web Audio graph: every param settles at its last
+// scheduled value, and sine oscillators are summed at the gain of their paths
+class FakeParam {
+  value: number;
+  constructor(v = 1) { this.value = v; }
+  setValueAtTime(v: number) { this.value = v; }
+  linearRampToValueAtTime(v: number) { this.value = v; }
+  exponentialRampToValueAtTime(v: number) { this.value = v; }
+  setTargetAtTime(v: number) { this.value = v; }
+  setValueCurveAtTime() {}
+  cancelScheduledValues() {}
+}
+
+class FakeNode {
+  outputs: FakeNode[] = [];
+  gain?: FakeParam;
+  connect(n: FakeNode) { this.outputs.push(n); return n; }
+  disconnect() { this.outputs = []; }
+  // Linear gain from this node to the destination, summed over all paths
+  level(destination: FakeNode): number {
+    if (this === destination) return 1;
+    return (this.gain?.value ?? 1) * this.outputs.reduce((sum, n) => sum + n.level(destination), 0);
+  }
+}
+
+class FakeOscillator extends FakeNode {
+  type = 'sine';
+  frequency = new FakeParam(440);
+  startAt = 0;
+  stopAt = Infinity;
+  onended: (() => void) | null = null;
+  ctx: FakeOfflineContext;
+  constructor(ctx: FakeOfflineContext) { super(); this.ctx = ctx; }
+  start(t = this.ctx.currentTime) { this.startAt = t; }
+  stop(t = this.ctx.currentTime) { this.stopAt = t; }
+}
+
+class FakeOfflineContext {
+  sampleRate: number;
+  length: number;
+  currentTime = 0;
+  destination = new FakeNode();
+  oscillators: FakeOscillator[] = [];
+  suspends = new Map<number, () => void>();
+  rejectSuspend = false;
+
+  constructor(length: number, sampleRate: number) { this.length = length; this.sampleRate = sampleRate; }
+
+  createGain() { const n = new FakeNode(); n.gain = new FakeParam(1); return n; }
+  createConvolver() { return Object.assign(new FakeNode(), { buffer: null }); }
+  createDynamicsCompressor() {
+    return Object.assign(new FakeNode(), {
+      threshold: new FakeParam(), knee: new FakeParam(), ratio: new FakeParam(), attack: new FakeParam(), release: new FakeParam(),
+    });
+  }
+  createOscillator() { const o = new FakeOscillator(this); this.oscillators.push(o); return o; }
+
+  suspend(t: number) {
+    if (this.rejectSuspend || this.suspends.has(t)) return Promise.reject(new Error(`cannot suspend at ${t}`));
+    return new Promise<void>(resolve => this.suspends.set(t, resolve));
+  }
+  resume() { return Promise.resolve(); }
+
+  async startRendering() {
+    for (const t of [...this.suspends.keys()].sort((a, b) => a - b)) {
+      this.currentTime = t;
+      this.suspends.get(t)!();
+      await new Promise(r => setTimeout(r, 0));
+    }
+    const data = new Float32Array(this.length);
+    for (const o of this.oscillators) {
+      const amp = o.level(this.destination);
+      const from = Math.round(o.startAt * this.sampleRate);
+      const to = Math.min(this.length, Math.round(o.stopAt * this.sampleRate));
+      for (let i = from; i < to; i++) data[i] += amp * Math.sin(2 * Math.PI * o.frequency.value * (i - from) / this.sampleRate);
+    }
+    return { numberOfChannels: 1, sampleRate: this.sampleRate, length: this.length, getChannelData: () => data };
+  }
+}
+
+const fakeFactory = (made: FakeOfflineContext[], setup: (c: FakeOfflineContext) => void = () => {}) =>
+  (_channels: number, length: number, sampleRate: number) => {
+    const ctx = new FakeOfflineContext(length, sampleRate);
+    setup(ctx);
+    made.push(ctx);
+    return ctx as unknown as OfflineAudioContext;
+  };
+
+const OPTS = {
+  sampleRate: RATE, instrument: 'sine' as const, envelope: DEFAULT_ADSR, release: 0.25, tail: 0.25,
+  bus: { volume: 1, reverb: 0, reverbSeconds: 2 },
+};
+
+describe('parseStepSequence', () => {
+  it('turns steps and rests into timed on/off events', () => {
+    const { events, error } = parseStepSequence('0:0.5 r:0.25 53', 220, 53, 0.4);
+    expect(error).toBeNull();
+    expect(events.map(e => [e.t, e.type, e.step])).toEqual([[0, 'on', 0], [500, 'off', 0], [750, 'on', 53], [1250, 'off', 53]]);
+    expect(events[2].freq).toBeCloseTo(440, 9);
+  });
+
+  it('reports bad tokens and durations', () => {
+    expect(parseStepSequence('0:0.5 x', 220, 53, 0.4).error).toMatch(/Bad token #2/);
+    expect(parseStepSequence('0:0', 220, 53, 0.4).error).toMatch(/positive/);
+  });
+});
+
+describe('renderEvents', () => {
+  it('renders a step sequence at the requested rate, length and level', async () => {
+    // The rest lets the first release finish before the second note starts
+    const { events } = parseStepSequence('0:0.5 r:0.5 9:0.5', 440, 53, 0.5);
+    const made: FakeOfflineContext[] = [];
+    const buf = await renderEvents(events, OPTS, fakeFactory(made));
+    expect(buf.sampleRate).toBe(RATE);
+    // 1.5 s of sequence + release + tail
+    expect(buf.length).toBe(2 * RATE);
+    expect(peakLevel(buf)).toBeCloseTo(0.5, 2);
+    // Events land on their suspend times (within one render quantum); the second note has its own pitch
+    const quantum = 128 / RATE;
+    const [first, second] = made[0].oscillators;
+    expect(Math.abs(first.stopAt - (0.5 + 0.25 + 0.005))).toBeLessThanOrEqual(quantum);
+    expect(Math.abs(second.startAt - 1)).toBeLessThanOrEqual(quantum);
+    expect(second.frequency.value).toBeCloseTo(440 * Math.pow(2, 9 / 53), 6);
+  });
+
+  it('fails the render when a suspend is rejected', async () => {
+    const { events } = parseStepSequence('0:0.5 9:0.5', 440, 53, 0.5);
+    const render = renderEvents(events, OPTS, fakeFactory([], c => { c.rejectSuspend = true; }));
+    await expect(render).rejects.toThrow(/cannot suspend/);
+  });
+});
+
+describe('encodeWav', () => {
+  const source = {
+    numberOfChannels: 2, sampleRate: 44100, length: 2,
+    getChannelData: (c: number) => (c === 0 ? new Float32Array([1, 0.5]) : new Float32Array([-1, 0])),
+  };
+  const header = (buf: ArrayBuffer) => {
+    const v = new DataView(buf);
+    const str = (off: number) => String.fromCharCode(...new Uint8Array(buf, off, 4));
+    return {
+      riff: str(0), riffSize: v.getUint32(4, true), wave: str(8), fmt: str(12), fmtSize: v.getUint32(16, true),
+      format: v.getUint16(20, true), channels: v.getUint16(22, true), rate: v.getUint32(24, true),
+      byteRate: v.getUint32(28, true), blockAlign: v.getUint16(32, true), bits: v.getUint16(34, true),
+      data: str(36), dataSize: v.getUint32(40, true),
+    };
+  };
+
+  it('writes a 16-bit PCM header and interleaved samples', () => {
+    const buf = encodeWav(source, 16);
+    expect(header(buf)).toEqual({
+      riff: 'RIFF', riffSize: 36 + 8, wave: 'WAVE', fmt: 'fmt ', fmtSize: 16, format: 1, channels: 2, rate: 44100,
+      byteRate: 44100 * 4, blockAlign: 4, bits: 16, data: 'data', dataSize: 8,
+    });
+    const v = new DataView(buf);
+    expect([0, 2, 4, 6].map(o => v.getInt16(44 + o, true))).toEqual([32767, -32767, 16384, 0]);
+  });
+
+  it('writes a 24-bit PCM header and little-endian samples', () => {
+    const buf = encodeWav(source, 24);
+    expect(buf.byteLength).toBe(44 + 12);
+    expect(header(buf)).toMatchObject({ riffSize: 36 + 12, byteRate: 44100 * 6, blockAlign: 6, bits: 24, dataSize: 12 });
+    expect([...new Uint8Array(buf, 44, 12)]).toEqual([0xff, 0xff, 0x7f, 0x01, 0x00, 0x80, 0x00, 0x00, 0x40, 0x00, 0x00, 0x00]);
+  });
+});
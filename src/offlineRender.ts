@@ -0,0 +1,134 @@
+// Offline rendering – replays a note schedule through the instrument voices in an OfflineAudioContext, WAV encoding
+import type { PerfEvent } from "./recorder";
+import type { Adsr, VoiceLike } from "./voice";
+import { type InstrumentId, createVoice } from "./instruments";
+import type { SampleSet } from "./sampleSet";
+import { type MasterBusSettings, MasterBus } from "./masterBus";
+
+export type RenderOptions = {
+  sampleRate: number;
+  instrument: InstrumentId;
+  samples?: SampleSet | null;
+  envelope: Adsr;
+  release: number;  // s
+  bus?: MasterBusSettings;  // limiter always applies; reverb adds its length to the tail
+  tail?: number;    // s of silence kept after the last release
+};
+
+type OfflineCtxFactory = (channels: number, length: number, sampleRate: number) => OfflineAudioContext;
+
+const defaultFactory: OfflineCtxFactory = (channels, length, sampleRate) => new OfflineAudioContext(channels, length, sampleRate);
+
+/**
+ * Typed sequence "step:seconds" separated by spaces or commas; 'r' is a rest.
+ * Example "0:0.5 9:0.5 17 r:0.25 22:1" (duration defaults to 0.5 s).
+ */
+export function parseStepSequence(s: string, baseFreq: number, stepsPerOctave: number, gain: number): { events: PerfEvent[]; error: string | null } {
+  const tokens = s.split(/[\s,]+/).filter(Boolean);
+  const events: PerfEvent[] = [];
+  let t = 0;
+  for (let i = 0; i < tokens.length; i++) {
+    const m = /^(r|-?\d+)(?::(\d*\.?\d+))?$/i.exec(tokens[i]);
+    if (!m) return { events: [], error: `Bad token #${i + 1}: '${tokens[i]}' (use step:seconds)` };
+    const dur = m[2] !== undefined ? Number(m[2]) : 0.5;
+    if (!(dur > 0)) return { events: [], error: `Duration must be positive in '${tokens[i]}'` };
+    if (m[1].toLowerCase() !== 'r') {
+      const step = Number(m[1]);
+      const freq = baseFreq * Math.pow(2, step / stepsPerOctave);
+      const voice = `seq:${i}`;
+      events.push({ t: t * 1000, type: 'on', voice, step, freq, gain });
+      events.push({ t: (t + dur) * 1000, type: 'off', voice, step, freq, gain: 0 });
+    }
+    t += dur;
+  }
+  events.sort((a, b) => a.t - b.t);
+  return { events, error: null };
+}
+
+/**
+ * Renders the events into a mono AudioBuffer. Each event runs at its (quantised)
+ * time via suspend(), so Voice sees the same currentTime-based envelope it uses live.
+ */
+export async function renderEvents(events: PerfEvent[], opts: RenderOptions, factory: OfflineCtxFactory = defaultFactory): Promise<AudioBuffer> {
+  const reverbTail = opts.bus && opts.bus.reverb > 0 ? opts.bus.reverbSeconds : 0;
+  const endSec = (events.length ? events[events.length - 1].t / 1000 : 0) + Math.max(0.02, opts.release) + reverbTail + (opts.tail ?? 0.1);
+  const length = Math.max(1, Math.ceil(endSec * opts.sampleRate));
+  const ctx = factory(1, length, opts.sampleRate);
+  const bus = new MasterBus(ctx, opts.bus);
+
+  // Group by render quantum so suspend() is called once per time
+  const quantum = 128 / opts.sampleRate;
+  const groups = new Map<number, PerfEvent[]>();
+  for (const e of events) {
+    const q = Math.round(e.t / 1000 / quantum) * quantum;
+    const list = groups.get(q) ?? [];
+    list.push(e);
+    groups.set(q, list);
+  }
+
+  const voices = new Map<string, VoiceLike>();
+  const apply = (e: PerfEvent) => {
+    const v = voices.get(e.voice);
+    if (e.type === 'on') {
+      v?.stop(opts.release);
+      voices.set(e.voice, createVoice(ctx, opts.instrument, e.freq, e.gain, opts.envelope, opts.samples, bus.input));
+    } else if (e.type === 'retune') {
+      v?.setFrequency(e.freq);
+    } else if (v) {
+      v.stop(opts.release);
+      voices.delete(e.voice);
+    }
+  };
+
+  // A rejected suspend (or a voice that throws) fails the render instead of going unhandled
+  const scheduled: Promise<void>[] = [];
+  for (const [time, list] of groups) {
+    if (time <= 0) { list.forEach(apply); continue; }
+    scheduled.push(ctx.suspend(time).then(() => {
+      try { list.forEach(apply); } finally { ctx.resume(); }
+    }));
+  }
+  const [buffer] = await Promise.all([ctx.startRendering(), ...scheduled]);
+  return buffer;
+}
+
+type SampleSource = Pick<AudioBuffer, 'numberOfChannels' | 'sampleRate' | 'length' | 'getChannelData'>;
+
+export function peakLevel(buf: SampleSource): number {
+  let peak = 0;
+  for (let c = 0; c < buf.numberOfChannels; c++) {
+    const d = buf.getChannelData(c);
+    for (let i = 0; i < d.length; i++) peak = Math.max(peak, Math.abs(d[i]));
+  }
+  return peak;
+}
+
+// Interleaved PCM WAV (16- or 24-bit little endian)
+export function encodeWav(buf: SampleSource, bitDepth: 16 | 24): ArrayBuffer {
+  const channels = buf.numberOfChannels;
+  const bytesPerSample = bitDepth / 8;
+  const dataSize = buf.length * channels * bytesPerSample;
+  const out = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(out);
+  const str = (off: number, s: string) => { for (let i = 0; i < s.length; i++) view.setUint8(off + i, s.charCodeAt(i)); };
+
+  str(0, 'RIFF'); view.setUint32(4, 36 + dataSize, true); str(8, 'WAVE');
+  str(12, 'fmt '); view.setUint32(16, 16, true); view.setUint16(20, 1, true);
+  view.setUint16(22, channels, true); view.setUint32(24, buf.sampleRate, true);
+  view.setUint32(28, buf.sampleRate * channels * bytesPerSample, true);
+  view.setUint16(32, channels * bytesPerSample, true); view.setUint16(34, bitDepth, true);
+  str(36, 'data'); view.setUint32(40, dataSize, true);
+
+  const data = Array.from({ length: channels }, (_, c) => buf.getChannelData(c));
+  const max = bitDepth === 16 ? 0x7fff : 0x7fffff;
+  let off = 44;
+  for (let i = 0; i < buf.length; i++) {
+    for (let c = 0; c < channels; c++) {
+      const v = Math.max(-1, Math.min(1, data[c][i]));
+      const n = Math.round(v * max);
+      if (bitDepth === 16) { view.setInt16(off, n, true); off += 2; }
+      else { view.setUint8(off, n & 0xff); view.setUint8(off + 1, (n >> 8) & 0xff); view.setUint8(off + 2, (n >> 16) & 0xff); off += 3; }
+    }
+  }
+  return out;
+}
@@ -0,0 +1,122 @@
+// Perde names and Arel-Ezgi-Uzdilek (AEU) spelling on the 53-koma grid
+//
+// Koma positions are counted from Yegâh, written D4 in AEU notation (the app's
+// D4 reference), so Rast = 22 (G4), Dügah = 31 (A4), Neva = 53 (D5).
+
+import { KOMA_EDO } from "./edo";
+
+export type AeuSpelling = {
+  letter: string;      // C D E F G A B
+  accidental: number;  // signed koma offset from the natural (0, ±1, +4/−5, +5/−4, ±8)
+  octave: number;      // scientific octave of the written natural
+};
+
+export type Perde = { koma: number; name: string; spelling: AeuSpelling };
+
+// Sharps raise by the named interval; the bakiye and küçük mücenneb flats lower by the complementary amount
+export const AEU_ACCIDENTALS: Record<number, string> = {
+  1: 'koma sharp', [-1]: 'koma flat',
+  4: 'bakiye sharp', [-5]: 'bakiye flat',
+  5: 'küçük mücenneb sharp', [-4]: 'küçük mücenneb flat',
+  8: 'büyük mücenneb sharp', [-8]: 'büyük mücenneb flat',
+};
+
+// Naturals in koma above D
+const NATURALS: [string, number][] = [['D', 0], ['E', 9], ['F', 13], ['G', 22], ['A', 31], ['B', 40], ['C', 44]];
+
+// The 24 perdes of one octave above D: koma, letter, accidental
+const OCTAVE_PATTERN: [number, string, number][] = [
+  [0, 'D', 0], [4, 'E', -5], [5, 'E', -4], [8, 'E', -1],
+  [9, 'E', 0], [13, 'F', 0], [14, 'F', 1], [17, 'F', 4], [18, 'F', 5], [21, 'G', -1],
+  [22, 'G', 0], [26, 'G', 4], [27, 'G', 5], [30, 'A', -1],
+  [31, 'A', 0], [35, 'B', -5], [36, 'B', -4], [39, 'B', -1],
+  [40, 'B', 0], [41, 'B', 1], [44, 'C', 0], [48, 'C', 4], [49, 'C', 5], [52, 'D', -1],
+];
+
+// Names in OCTAVE_PATTERN order: Yegâh octave, then Neva octave, then Tiz Neva
+const PERDE_NAMES: string[][] = [
+  [
+    'Yegâh', 'Nim Pest Hisar', 'Pest Hisar', 'Dik Pest Hisar',
+    'Hüseyni Aşiran', 'Acem Aşiran', 'Dik Acem Aşiran', 'Irak', 'Gevest', 'Dik Gevest',
+    'Rast', 'Nim Zirgüle', 'Zirgüle', 'Dik Zirgüle',
+    'Dügah', 'Kürdi', 'Dik Kürdi', 'Segah',
+    'Buselik', 'Dik Buselik', 'Çargah', 'Nim Hicaz', 'Hicaz', 'Dik Hicaz',
+  ],
+  [
+    'Neva', 'Nim Hisar', 'Hisar', 'Dik Hisar',
+    'Hüseyni', 'Acem', 'Dik Acem', 'Eviç', 'Mahur', 'Dik Mahur',
+    'Gerdaniye', 'Nim Şehnaz', 'Şehnaz', 'Dik Şehnaz',
+    'Muhayyer', 'Sünbüle', 'Dik Sünbüle', 'Tiz Segah',
+    'Tiz Buselik', 'Tiz Dik Buselik', 'Tiz Çargah', 'Tiz Nim Hicaz', 'Tiz Hicaz', 'Tiz Dik Hicaz',
+  ],
+  ['Tiz Neva'],
+];
+
+const mod = (n: number, m: number) => ((n % m) + m) % m;
+
+// Written octave of the natural under a spelled koma (C4 sits 9 koma below Yegâh)
+const octaveFor = (naturalKoma: number) => 4 + Math.floor((naturalKoma + 9) / KOMA_EDO);
+
+/**
+ * AEU spelling of any koma position. Perdes use their customary spelling;
+ * other positions take the smallest single accidental, or null when none fits.
+ */
+export function spellKoma(koma: number): AeuSpelling | null {
+  const k = mod(koma, KOMA_EDO);
+  const base = koma - k;
+  const known = OCTAVE_PATTERN.find(([pk]) => pk === k);
+  if (known) {
+    const [, letter, accidental] = known;
+    return { letter, accidental, octave: octaveFor(koma - accidental) };
+  }
+  let best: AeuSpelling | null = null;
+  for (const [letter, nk] of [...NATURALS, ['D', KOMA_EDO] as [string, number]]) {
+    const accidental = k - nk;
+    if (!(accidental in AEU_ACCIDENTALS)) continue;
+    if (best && Math.abs(best.accidental) <= Math.abs(accidental)) continue;
+    best = { letter, accidental, octave: octaveFor(base + nk) };
+  }
+  return best;
+}
+
+/**
+ * Perde at a koma position, from Kaba (one octave below Yegâh) to the Tiz
+ * register above Tiz Neva. Positions that are not one of the 24 perdes give null.
+ */
+export function perdeAt(koma: number): Perde | null {
+  if (koma < -KOMA_EDO) return null;
+  if (koma < 0) {
+    const up = perdeAt(koma + KOMA_EDO);
+    return up && { koma, name: `Kaba ${up.name}`, spelling: spellKoma(koma) as AeuSpelling };
+  }
+  if (koma > 2 * KOMA_EDO) {
+    const down = perdeAt(koma - KOMA_EDO);
+    if (!down || down.name.startsWith('Tiz ')) return null;
+    return { koma, name: `Tiz ${down.name}`, spelling: spellKoma(koma) as AeuSpelling };
+  }
+  const idx = OCTAVE_PATTERN.findIndex(([pk]) => pk === mod(koma, KOMA_EDO));
+  const name = idx >= 0 ? PERDE_NAMES[Math.floor(koma / KOMA_EDO)][idx] : undefined;
+  return name ? { koma, name, spelling: spellKoma(koma) as AeuSpelling } : null;
+}
+
+// Fractional koma position (from Yegâh) of a step over a base transposed from D4
+export const komaFromYegah = (step: number, transpose12: number, edo: number) =>
+  KOMA_EDO * (step / edo + transpose12 / 12);
+
+// Nearest step for a koma position; inverse of komaFromYegah
+export const stepForKoma = (koma: number, transpose12: number, edo: number) =>
+  Math.round(edo * (koma / KOMA_EDO - transpose12 / 12));
+
+export const fmtAccidental = (acc: number) => (acc === 0 ? '' : `${acc < 0 ? '♭' : '♯'}${Math.abs(acc)}`);
+
+// e.g. "B♭5 (B4 bakiye flat)"
+export const describeSpelling = (sp: AeuSpelling) =>
+  `${sp.letter}${fmtAccidental(sp.accidental)} (${sp.letter}${sp.octave}${sp.accidental ? ` ${AEU_ACCIDENTALS[sp.accidental]}` : ''})`;
+
+// Koma position (from Yegâh) of a written note; inverse of spellKoma
+export function komaForSpelling(sp: AeuSpelling): number | null {
+  const nat = NATURALS.find(([l]) => l === sp.letter);
+  if (!nat) return null;
+  const fromC = mod(nat[1] + 9, KOMA_EDO);
+  return (sp.octave - 4) * KOMA_EDO + fromC - 9 + sp.accidental;
+}
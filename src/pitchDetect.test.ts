@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { detectPitchYin, komaForFreq, komaHistogram, pitchTrack, pitchTrackChunked } from "./pitchDetect";
+
+const RATE = 44100;
+const BASE = 261.63;
+const EDO = 53;
+
+// Frequency of a koma step in equal 53 (what freqForStepFromBase gives with no tuning table)
+const freqForStep = (step: number) => BASE * Math.pow(2, step / EDO);
+
+const sine = (freq: number, seconds: number, amp = 0.5) =>
+  Float32Array.from({ length: Math.round(seconds * RATE) }, (_, i) => amp * Math.sin((2 * Math.PI * freq * i) / RATE));
+
+// Deterministic white noise
+const noise = (n: number, amp = 0.5) => {
+  let seed = 12345;
+  return Float32Array.from({ length: n }, () => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return amp * ((seed / 2147483648) * 2 - 1);
+  });
+};
+
+describe('detectPitchYin', () => {
+  it.each([-13, 0, 9, 22, 31, 53])('lands sine tones on koma step %i', (step) => {
+    const f = detectPitchYin(sine(freqForStep(step), 0.046), RATE);
+    expect(f).not.toBeNull();
+    expect(Math.round(komaForFreq(f!, BASE, EDO))).toBe(step);
+    // Well inside a koma (~22.6¢)
+    expect(Math.abs(1200 * Math.log2(f! / freqForStep(step)))).toBeLessThan(2);
+  });
+
+  it('returns null for silence and for noise', () => {
+    expect(detectPitchYin(new Float32Array(2048), RATE)).toBeNull();
+    expect(detectPitchYin(sine(440, 0.046, 0.005), RATE)).toBeNull();
+    expect(detectPitchYin(noise(2048), RATE)).toBeNull();
+  });
+});
+
+describe('pitchTrack', () => {
+  it('tracks a tone that moves up four komas', () => {
+    const a = freqForStep(31);
+    const samples = new Float32Array([...sine(a, 0.3), ...sine(a * Math.pow(2, 4 / EDO), 0.3)]);
+    const track = pitchTrack(samples, RATE, 0.01);
+    // Windows straddling the switch land in between; the two held pitches dominate
+    const bins = komaHistogram(track, BASE, EDO, 0.01).filter(b => b.seconds > 0.1);
+    expect(bins.map(b => b.step)).toEqual([31, 35]);
+    bins.forEach(b => { expect(b.seconds).toBeGreaterThan(0.2); expect(Math.abs(b.meanCents)).toBeLessThan(2); });
+  });
+
+  it('gives the same frames in batches, and stops when progress says so', async () => {
+    const samples = sine(freqForStep(22), 3);
+    const sync = pitchTrack(samples, RATE, 0.01);
+    const seen: number[] = [];
+    expect(await pitchTrackChunked(samples, RATE, 0.01, undefined, undefined, (p) => { seen.push(p); })).toEqual(sync);
+    expect(seen.length).toBeGreaterThan(0);
+    expect(seen.every((p, i) => p > 0 && p < 1 && (i === 0 || p > seen[i - 1]))).toBe(true);
+    expect(await pitchTrackChunked(samples, RATE, 0.01, undefined, undefined, () => false)).toBeNull();
+  });
+});
@@ -0,0 +1,132 @@
+// Pitch detection (YIN) and koma-grid statistics for recorded performances
+
+export type PitchFrame = { t: number; freq: number | null };
+export type KomaBin = { step: number; seconds: number; meanCents: number };
+
+export type YinOptions = {
+  threshold?: number;  // CMND threshold, lower = stricter
+  minFreq?: number;
+  maxFreq?: number;
+  silence?: number;    // RMS below this is unvoiced
+};
+
+/**
+ * YIN fundamental estimate for one window (de Cheveigné & Kawahara 2002):
+ * difference function, cumulative-mean normalisation, absolute threshold,
+ * parabolic interpolation. Returns null for silence or unvoiced frames.
+ */
+export function detectPitchYin(x: Float32Array, sampleRate: number, opts: YinOptions = {}): number | null {
+  const { threshold = 0.15, minFreq = 60, maxFreq = 1500, silence = 0.01 } = opts;
+  let energy = 0;
+  for (let i = 0; i < x.length; i++) energy += x[i] * x[i];
+  if (Math.sqrt(energy / Math.max(1, x.length)) < silence) return null;
+
+  const maxTau = Math.min(Math.floor(sampleRate / minFreq), Math.floor(x.length / 2));
+  const minTau = Math.max(2, Math.floor(sampleRate / maxFreq));
+  const w = x.length - maxTau;
+  if (maxTau <= minTau || w <= 0) return null;
+
+  const d = new Float32Array(maxTau + 1);
+  for (let tau = 1; tau <= maxTau; tau++) {
+    let sum = 0;
+    for (let j = 0; j < w; j++) { const diff = x[j] - x[j + tau]; sum += diff * diff; }
+    d[tau] = sum;
+  }
+  // Cumulative mean normalised difference
+  const cmnd = new Float32Array(maxTau + 1);
+  cmnd[0] = 1;
+  let running = 0;
+  for (let tau = 1; tau <= maxTau; tau++) {
+    running += d[tau];
+    cmnd[tau] = running > 0 ? (d[tau] * tau) / running : 1;
+  }
+
+  let tau = -1;
+  for (let t = minTau; t <= maxTau; t++) {
+    if (cmnd[t] < threshold) {
+      while (t + 1 <= maxTau && cmnd[t + 1] < cmnd[t]) t++;
+      tau = t;
+      break;
+    }
+  }
+  if (tau < 0) return null;
+
+  // Parabolic interpolation around the dip
+  let better = tau;
+  if (tau > 1 && tau < maxTau) {
+    const a = cmnd[tau - 1], b = cmnd[tau], c = cmnd[tau + 1];
+    const denom = a + c - 2 * b;
+    if (denom !== 0) better = tau + (a - c) / (2 * denom);
+  }
+  return sampleRate / better;
+}
+
+const TRACK_CHUNK_FRAMES = 250;
+
+const trackFrame = (samples: Float32Array, sampleRate: number, start: number, win: number, opts: YinOptions): PitchFrame =>
+  ({ t: start / sampleRate, freq: detectPitchYin(samples.subarray(start, start + win), sampleRate, opts) });
+
+// Frame-by-frame track over a mono signal (hop/window in seconds)
+export function pitchTrack(samples: Float32Array, sampleRate: number, hopSec = 0.01, winSec = 0.046, opts: YinOptions = {}): PitchFrame[] {
+  const hop = Math.max(1, Math.round(hopSec * sampleRate));
+  const win = Math.max(64, Math.round(winSec * sampleRate));
+  const frames: PitchFrame[] = [];
+  for (let start = 0; start + win <= samples.length; start += hop) frames.push(trackFrame(samples, sampleRate, start, win, opts));
+  return frames;
+}
+
+/**
+ * Same track as pitchTrack, computed in batches that yield to the event loop
+ * so a long file does not freeze the page. `onProgress` gets 0..1 after each
+ * batch; returning false from it abandons the analysis (resolves null).
+ */
+export async function pitchTrackChunked(
+  samples: Float32Array, sampleRate: number, hopSec = 0.01, winSec = 0.046, opts: YinOptions = {},
+  onProgress?: (fraction: number) => boolean | void,
+): Promise<PitchFrame[] | null> {
+  const hop = Math.max(1, Math.round(hopSec * sampleRate));
+  const win = Math.max(64, Math.round(winSec * sampleRate));
+  const frames: PitchFrame[] = [];
+  for (let start = 0; start + win <= samples.length; start += hop) {
+    frames.push(trackFrame(samples, sampleRate, start, win, opts));
+    if (frames.length % TRACK_CHUNK_FRAMES === 0) {
+      if (onProgress?.(start / samples.length) === false) return null;
+      await new Promise(r => setTimeout(r, 0));
+    }
+  }
+  return frames;
+}
+
+// Fractional koma position of a frequency relative to the base
+export const komaForFreq = (freq: number, baseFreq: number, stepsPerOctave: number) =>
+  stepsPerOctave * Math.log2(freq / baseFreq);
+
+/**
+ * Time spent near each koma step (nearest-step binning) with the mean signed
+ * deviation from that step in cents. Unvoiced frames are skipped.
+ */
+export function komaHistogram(track: PitchFrame[], baseFreq: number, stepsPerOctave: number, hopSec: number): KomaBin[] {
+  const centsPerStep = 1200 / stepsPerOctave;
+  const acc = new Map<number, { n: number; dev: number }>();
+  for (const f of track) {
+    if (f.freq === null) continue;
+    const k = komaForFreq(f.freq, baseFreq, stepsPerOctave);
+    const step = Math.round(k);
+    const cur = acc.get(step) ?? { n: 0, dev: 0 };
+    cur.n += 1;
+    cur.dev += (k - step) * centsPerStep;
+    acc.set(step, cur);
+  }
+  return Array.from(acc, ([step, { n, dev }]) => ({ step, seconds: n * hopSec, meanCents: dev / n }))
+    .sort((a, b) => a.step - b.step);
+}
+
+// Average all channels into one
+export function mixToMono(buf: Pick<AudioBuffer, 'numberOfChannels' | 'length' | 'getChannelData'>): Float32Array {
+  const out = new Float32Array(buf.length);
+  for (let c = 0; c < buf.numberOfChannels; c++) {
+    const d = buf.getChannelData(c);
+    for (let i = 0; i < out.length; i++) out[i] += d[i] / buf.numberOfChannels;
+  }
+  return out;
+}
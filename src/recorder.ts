@@ -0,0 +1,126 @@
+// Performance recorder – event log, JSON round-trip and Standard MIDI File export
+import {
+  ChannelAllocator, MEMBER_CHANNELS, bendForSemis, midiFloatForFreq, noteAndBendForFreq,
+  noteOffMsg, noteOnMsg, pitchBendMsg, pitchBendRangeMsgs,
+} from "./midiOutput";
+
+export type PerfEventType = 'on' | 'retune' | 'off';
+
+export type PerfEvent = {
+  t: number;        // ms since recording started
+  type: PerfEventType;
+  voice: string;    // stable id of the sounding voice ('key:a', 'ptr:1', 'latch:22', …)
+  step: number;     // absolute koma step
+  freq: number;     // Hz
+  gain: number;     // linear gain at note-on (0 for retune/off)
+};
+
+export const EVENT_LOG_VERSION = 1;
+
+export const eventLogToJson = (events: PerfEvent[]) =>
+  JSON.stringify({ version: EVENT_LOG_VERSION, events }, null, 2);
+
+const EVENT_TYPES: PerfEventType[] = ['on', 'retune', 'off'];
+
+export function parseEventLog(text: string): { events: PerfEvent[]; error: string | null } {
+  let data: unknown;
+  try { data = JSON.parse(text); } catch { return { events: [], error: 'Not valid JSON.' }; }
+  const file = data as { version?: unknown; events?: unknown } | null;
+  if (!file || !Array.isArray(file.events)) return { events: [], error: 'Missing "events" list.' };
+  if (file.version !== EVENT_LOG_VERSION) return { events: [], error: `Unsupported log version: ${String(file.version)}` };
+
+  const events: PerfEvent[] = [];
+  for (let i = 0; i < file.events.length; i++) {
+    const e = file.events[i] as Partial<PerfEvent>;
+    const ok = e && typeof e.t === 'number' && e.t >= 0 && EVENT_TYPES.includes(e.type as PerfEventType)
+      && typeof e.voice === 'string' && Number.isInteger(e.step)
+      && typeof e.freq === 'number' && e.freq > 0 && typeof e.gain === 'number';
+    if (!ok) return { events: [], error: `Invalid event #${i + 1}.` };
+    events.push({ t: e.t!, type: e.type!, voice: e.voice!, step: e.step!, freq: e.freq!, gain: e.gain! });
+  }
+  events.sort((a, b) => a.t - b.t);
+  return { events, error: null };
+}
+
+// Length of a log in ms (last event time)
+export const eventLogDuration = (events: PerfEvent[]) => (events.length ? events[events.length - 1].t : 0);
+
+// ----- Standard MIDI File -----
+const PPQ = 480;
+const TEMPO_US = 500000; // 120 bpm → 1 ms = 0.96 ticks
+
+const msToTicks = (ms: number) => Math.round((ms * 1000 * PPQ) / TEMPO_US);
+
+function varLen(n: number): number[] {
+  let v = Math.max(0, Math.round(n));
+  const bytes = [v & 0x7f];
+  while ((v >>= 7) > 0) bytes.unshift((v & 0x7f) | 0x80);
+  return bytes;
+}
+
+const u32 = (n: number) => [(n >>> 24) & 0xff, (n >>> 16) & 0xff, (n >>> 8) & 0xff, n & 0xff];
+const u16 = (n: number) => [(n >>> 8) & 0xff, n & 0xff];
+const ascii = (s: string) => Array.from(s, c => c.charCodeAt(0) & 0x7f);
+
+// Gain (0..0.6 slider range) → note-on velocity
+const velocityForGain = (g: number) => Math.max(1, Math.min(127, Math.round(127 * Math.sqrt(Math.min(1, g / 0.6)))));
+
+/**
+ * Format 0 SMF. Every voice gets its own channel (2–16, round-robin) so its
+ * pitch bend carries the koma offset without detuning other notes.
+ */
+export function eventsToSmf(events: PerfEvent[], bendRange = 2): Uint8Array<ArrayBuffer> {
+  const timed: { tick: number; data: number[] }[] = [];
+  const at = (ms: number, data: number[]) => timed.push({ tick: msToTicks(ms), data });
+
+  timed.push({ tick: 0, data: [0xff, 0x51, 0x03, (TEMPO_US >> 16) & 0xff, (TEMPO_US >> 8) & 0xff, TEMPO_US & 0xff] });
+  MEMBER_CHANNELS.forEach(ch => pitchBendRangeMsgs(ch, bendRange).forEach(m => timed.push({ tick: 0, data: m })));
+
+  const alloc = new ChannelAllocator(MEMBER_CHANNELS);
+  const held = new Map<string, { ch: number; note: number; vel: number }>();
+
+  for (const e of events) {
+    const cur = held.get(e.voice);
+    if (e.type === 'on') {
+      if (cur) { at(e.t, noteOffMsg(cur.ch, cur.note)); alloc.release(cur.ch); }
+      const ch = alloc.allocate();
+      const { note, bend } = noteAndBendForFreq(e.freq, bendRange);
+      const vel = velocityForGain(e.gain);
+      at(e.t, pitchBendMsg(ch, bend));
+      at(e.t, noteOnMsg(ch, note, vel));
+      held.set(e.voice, { ch, note, vel });
+    } else if (e.type === 'retune' && cur) {
+      const offset = midiFloatForFreq(e.freq) - cur.note;
+      if (Math.abs(offset) <= bendRange) {
+        at(e.t, pitchBendMsg(cur.ch, bendForSemis(offset, bendRange)));
+      } else {
+        const { note, bend } = noteAndBendForFreq(e.freq, bendRange);
+        at(e.t, noteOffMsg(cur.ch, cur.note));
+        at(e.t, pitchBendMsg(cur.ch, bend));
+        at(e.t, noteOnMsg(cur.ch, note, cur.vel));
+        cur.note = note;
+      }
+    } else if (e.type === 'off' && cur) {
+      at(e.t, noteOffMsg(cur.ch, cur.note));
+      alloc.release(cur.ch);
+      held.delete(e.voice);
+    }
+  }
+  const end = eventLogDuration(events);
+  held.forEach(h => at(end, noteOffMsg(h.ch, h.note)));
+
+  // Stable sort keeps same-tick order (bend before note-on)
+  timed.sort((a, b) => a.tick - b.tick);
+  const track: number[] = [0x00, 0xff, 0x03, 14, ...ascii('Makam Klavyesi')];
+  let last = 0;
+  for (const ev of timed) {
+    track.push(...varLen(ev.tick - last), ...ev.data);
+    last = ev.tick;
+  }
+  track.push(0x00, 0xff, 0x2f, 0x00);
+
+  return new Uint8Array([
+    ...ascii('MThd'), ...u32(6), ...u16(0), ...u16(1), ...u16(PPQ),
+    ...ascii('MTrk'), ...u32(track.length), ...track,
+  ]);
+}
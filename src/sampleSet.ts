@@ -0,0 +1,86 @@
+// Multisample sets – a JSON key map plus local WAV files, repitched per note
+
+export type SampleZone = {
+  file: string;
+  buffer: AudioBuffer;
+  rootHz: number;                  // pitch recorded in the file
+  loop: [number, number] | null;   // seconds
+};
+export type SampleSet = { name: string; zones: SampleZone[] };
+
+export type SampleMapEntry = Omit<SampleZone, 'buffer'>;
+
+/**
+ * Key map format:
+ *   { "name": "Kanun", "samples": [ { "file": "A3.wav", "root": 57 },
+ *                                   { "file": "D4.wav", "rootHz": 293.66, "loop": [0.4, 1.9] } ] }
+ * `root` is a MIDI note number (fractions allowed), `rootHz` an exact frequency;
+ * an optional `cents` offset applies to either.
+ */
+export function parseSampleMap(text: string): { name: string; entries: SampleMapEntry[]; error: string | null } {
+  let data: unknown;
+  try { data = JSON.parse(text); } catch { return { name: '', entries: [], error: 'Key map is not valid JSON.' }; }
+  const obj = data as { name?: unknown; samples?: unknown };
+  if (!obj || !Array.isArray(obj.samples)) return { name: '', entries: [], error: 'Key map needs a "samples" array.' };
+
+  const entries: SampleMapEntry[] = [];
+  for (let i = 0; i < obj.samples.length; i++) {
+    const s = obj.samples[i] as { file?: unknown; root?: unknown; rootHz?: unknown; cents?: unknown; loop?: unknown };
+    if (typeof s?.file !== 'string' || !s.file) return { name: '', entries: [], error: `Sample #${i + 1} has no "file".` };
+    let rootHz: number;
+    if (typeof s.rootHz === 'number' && s.rootHz > 0) rootHz = s.rootHz;
+    else if (typeof s.root === 'number' && Number.isFinite(s.root)) rootHz = 440 * Math.pow(2, (s.root - 69) / 12);
+    else return { name: '', entries: [], error: `Sample '${s.file}' needs "root" (MIDI note) or "rootHz".` };
+    if (typeof s.cents === 'number') rootHz *= Math.pow(2, s.cents / 1200);
+    let loop: [number, number] | null = null;
+    if (s.loop !== undefined) {
+      const l = s.loop as unknown[];
+      if (!Array.isArray(l) || l.length !== 2 || typeof l[0] !== 'number' || typeof l[1] !== 'number' || !(l[1] > l[0]) || l[0] < 0) {
+        return { name: '', entries: [], error: `Sample '${s.file}' has a bad "loop" (use [startSec, endSec]).` };
+      }
+      loop = [l[0], l[1]];
+    }
+    entries.push({ file: s.file, rootHz, loop });
+  }
+  if (!entries.length) return { name: '', entries: [], error: 'Key map lists no samples.' };
+  return { name: typeof obj.name === 'string' && obj.name.trim() ? obj.name.trim() : 'Samples', entries, error: null };
+}
+
+// Zone whose root is nearest in pitch (smallest repitch)
+export function pickSample(set: SampleSet, freq: number): SampleZone {
+  let best = set.zones[0];
+  for (const z of set.zones) {
+    if (Math.abs(Math.log2(freq / z.rootHz)) < Math.abs(Math.log2(freq / best.rootHz))) best = z;
+  }
+  return best;
+}
+
+/**
+ * Loads a set from user-picked files: one .json key map and the WAVs it names
+ * (matched by file name, case-insensitive).
+ */
+export async function loadSampleSet(
+  files: File[], decode: (data: ArrayBuffer) => Promise<AudioBuffer>,
+): Promise<{ set: SampleSet | null; error: string | null }> {
+  const mapFile = files.find(f => f.name.toLowerCase().endsWith('.json'));
+  if (!mapFile) return { set: null, error: 'Pick the .json key map together with the WAV files.' };
+  const { name, entries, error } = parseSampleMap(await mapFile.text());
+  if (error) return { set: null, error };
+
+  // Key maps may name files with a folder prefix; the picker only gives base names
+  const byName = new Map(files.map(f => [f.name.toLowerCase(), f]));
+  const fileFor = (e: SampleMapEntry) => byName.get(e.file.split('/').pop()!.toLowerCase());
+  const missing = entries.filter(e => !fileFor(e));
+  if (missing.length) return { set: null, error: `Missing file${missing.length > 1 ? 's' : ''}: ${missing.map(m => m.file).join(', ')}` };
+
+  const zones: SampleZone[] = [];
+  for (const e of entries) {
+    const file = fileFor(e) as File;
+    try {
+      zones.push({ ...e, buffer: await decode(await file.arrayBuffer()) });
+    } catch (err) {
+      return { set: null, error: `Could not decode '${e.file}': ${(err as Error)?.message ?? err}` };
+    }
+  }
+  return { set: { name, zones }, error: null };
+}
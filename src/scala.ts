@@ -0,0 +1,98 @@
+// Scala tuning files – .scl / .kbm export and .scl import snapped to the koma grid
+
+export type SclParse = { description: string; cents: number[]; error: string | null };
+export type SnappedPitch = { cents: number; step: number; deviation: number };
+
+const fmtSclCents = (c: number) => c.toFixed(5);
+
+// Absolute steps folded into one period, sorted, without the 0/octave duplicates
+function foldToOctave(absSteps: number[], stepsPerOctave: number): number[] {
+  const set = new Set<number>();
+  for (const s of absSteps) {
+    const r = ((s % stepsPerOctave) + stepsPerOctave) % stepsPerOctave;
+    if (r !== 0) set.add(r);
+  }
+  return Array.from(set).sort((a, b) => a - b);
+}
+
+/**
+ * .scl text for the given absolute steps; degrees are folded into the octave
+ * and written in cents, with 2/1 as the closing period.
+ */
+export function buildScl(description: string, absSteps: number[], stepsPerOctave: number, fileName = 'tuning.scl'): string {
+  const centsPerStep = 1200 / stepsPerOctave;
+  const degrees = foldToOctave(absSteps, stepsPerOctave);
+  const lines = [
+    `! ${fileName}`,
+    '!',
+    description.replace(/[\r\n]+/g, ' '),
+    ` ${degrees.length + 1}`,
+    '!',
+    ...degrees.map(s => ` ${fmtSclCents(s * centsPerStep)}`),
+    ' 2/1',
+  ];
+  return lines.join('\n') + '\n';
+}
+
+// Number of scale degrees per period written by buildScl (used as .kbm map size)
+export const sclSize = (absSteps: number[], stepsPerOctave: number) => foldToOctave(absSteps, stepsPerOctave).length + 1;
+
+// Linear keyboard mapping: middle note plays degree 0 at the given frequency
+export function buildKbm(mapSize: number, refFreq: number, refNote = 60, fileName = 'tuning.kbm'): string {
+  const lines = [
+    `! ${fileName}`,
+    '!',
+    '! Map size:', `${mapSize}`,
+    '! First MIDI note number to retune:', '0',
+    '! Last MIDI note number to retune:', '127',
+    '! Middle note where the first entry of the mapping is mapped to:', `${refNote}`,
+    '! Reference note for which frequency is given:', `${refNote}`,
+    '! Frequency to tune the above note to (floating point e.g. 440.0):', refFreq.toFixed(6),
+    '! Scale degree to consider as formal octave:', `${mapSize}`,
+    '! Mapping.',
+    ...Array.from({ length: mapSize }, (_, i) => `${i}`),
+  ];
+  return lines.join('\n') + '\n';
+}
+
+// Parse one pitch token: cents if it has a '.', otherwise a ratio (n/d or n)
+function parsePitchToken(tok: string): number | null {
+  if (tok.includes('.')) {
+    const c = Number(tok);
+    return Number.isFinite(c) ? c : null;
+  }
+  const m = /^(\d+)(?:\/(\d+))?$/.exec(tok);
+  if (!m) return null;
+  const num = Number(m[1]);
+  const den = m[2] ? Number(m[2]) : 1;
+  if (num <= 0 || den <= 0) return null;
+  return 1200 * Math.log2(num / den);
+}
+
+export function parseScl(text: string): SclParse {
+  const lines = text.split(/\r?\n/).filter(l => !l.startsWith('!'));
+  if (lines.length < 2) return { description: '', cents: [], error: 'File is too short to be a .scl tuning.' };
+  const description = lines[0].trim();
+  const count = Number(lines[1].trim().split(/\s+/)[0]);
+  if (!Number.isInteger(count) || count < 0) return { description, cents: [], error: `Invalid note count: '${lines[1].trim()}'` };
+
+  const cents: number[] = [];
+  for (let i = 0; i < count; i++) {
+    const line = lines[2 + i];
+    if (line === undefined) return { description, cents: [], error: `Expected ${count} pitches, found ${i}.` };
+    const tok = line.trim().split(/\s+/)[0] ?? '';
+    const c = parsePitchToken(tok);
+    if (c === null) return { description, cents: [], error: `Invalid pitch on degree ${i + 1}: '${tok}'` };
+    cents.push(c);
+  }
+  return { description, cents, error: null };
+}
+
+// Snap each pitch to the nearest step; deviation is pitch minus snapped step, in cents
+export function snapToSteps(cents: number[], stepsPerOctave: number): SnappedPitch[] {
+  const centsPerStep = 1200 / stepsPerOctave;
+  return cents.map(c => {
+    const step = Math.round(c / centsPerStep);
+    return { cents: c, step, deviation: c - step * centsPerStep };
+  });
+}
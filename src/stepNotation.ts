@@ -0,0 +1,100 @@
+// Custom çeşni notation – koma counts, AEU interval symbols, cents and ratios
+
+import { KOMA_EDO, centsPerStepFor, remapKomaStep } from "./edo";
+
+// Interval symbols as written in Turkish theory books ("T K T")
+export const INTERVAL_SYMBOLS: Record<string, { koma: number; name: string }> = {
+  K: { koma: 1, name: 'koma' },
+  B: { koma: 4, name: 'bakiye' },
+  S: { koma: 5, name: 'küçük mücenneb' },
+  M: { koma: 8, name: 'büyük mücenneb' },
+  T: { koma: 9, name: 'tanini' },
+  A: { koma: 12, name: 'artık ikili' },
+};
+const WIDE_ARTIK = 13;  // written A13
+
+export type ParsedStepList = {
+  steps: number[];
+  error: string | null;
+  snaps: string[];   // how each cents/ratio/symbol token was rounded, e.g. "204c → 9 (-0.2¢)"
+};
+
+const fmtCents = (c: number) => `${c >= 0 ? '+' : ''}${c.toFixed(1)}¢`;
+
+/**
+ * Intervals separated by spaces, commas or '+'. Each token is a count of
+ * steps in the active division ("9"), a symbol (K B S M T A, or A13 for the
+ * 13-koma artık ikili), cents ("204c") or a ratio ("9/8"). Symbols are
+ * 53-koma sizes; in other divisions they, like cents and ratios, snap to the
+ * nearest step and the rounding is reported in `snaps`.
+ * Example "T M S T" -> [0, 9, 17, 22, 31]; maxStep bounds single intervals and the sum.
+ */
+export function parseStepList(s: string, maxStep: number, edo: number = KOMA_EDO): ParsedStepList {
+  const cps = centsPerStepFor(edo);
+  const unit = edo === KOMA_EDO ? 'koma' : 'steps';
+  const intervals: { n: number; at: string }[] = [];
+  const snaps: string[] = [];
+  const fail = (error: string): ParsedStepList => ({ steps: [], error, snaps: [] });
+
+  for (const m of s.matchAll(/[^\s,+]+/g)) {
+    const t = m[0];
+    const at = `'${t}' at column ${(m.index ?? 0) + 1}`;
+    let n: number;
+    let sym: RegExpExecArray | null;
+    let num: RegExpExecArray | null;
+
+    if (/^\d+$/.test(t)) {
+      n = Number(t);
+    } else if ((sym = /^([KBSMTA])(13)?$/i.exec(t))) {
+      const letter = sym[1].toUpperCase();
+      if (sym[2] && letter !== 'A') return fail(`Only A takes a size (A13), got ${at}`);
+      const koma = sym[2] ? WIDE_ARTIK : INTERVAL_SYMBOLS[letter].koma;
+      n = remapKomaStep(koma, edo);
+      if (edo !== KOMA_EDO) snaps.push(`${t} → ${n} (${fmtCents(n * cps - koma * centsPerStepFor(KOMA_EDO))})`);
+    } else if ((num = /^(\d+(?:\.\d+)?)c$/i.exec(t))) {
+      const cents = Number(num[1]);
+      n = Math.round(cents / cps);
+      snaps.push(`${t} → ${n} (${fmtCents(n * cps - cents)})`);
+    } else if ((num = /^(\d+(?:\.\d+)?)\/(\d+(?:\.\d+)?)$/.exec(t))) {
+      const ratio = Number(num[1]) / Number(num[2]);
+      if (!(ratio >= 1) || !Number.isFinite(ratio)) return fail(`Ratio ${at} must be 1/1 or wider`);
+      const cents = 1200 * Math.log2(ratio);
+      n = Math.round(cents / cps);
+      snaps.push(`${t} → ${n} (${fmtCents(n * cps - cents)})`);
+    } else {
+      return fail(`Unknown token ${at} (use ${unit} counts, K B S M T A, cents like 204c or ratios like 9/8)`);
+    }
+
+    if (n > maxStep) return fail(`Interval ${at} is ${n} ${unit} (use 0–${maxStep})`);
+    intervals.push({ n, at });
+  }
+  if (!intervals.length) return { steps: [], error: null, snaps: [] };
+
+  // Build cumulative absolute steps, starting from base = 0
+  const steps: number[] = [0];
+  let acc = 0;
+  for (const { n, at } of intervals) {
+    acc += n;
+    if (acc > maxStep) return fail(`Sum exceeds max step ${maxStep} (hit ${acc} with ${at}).`);
+    steps.push(acc);
+  }
+
+  // De-duplicate while preserving order (in case user typed a 0 interval)
+  const uniq: number[] = [];
+  for (const v of steps) if (!uniq.includes(v)) uniq.push(v);
+
+  return { steps: uniq, error: null, snaps };
+}
+
+/**
+ * Prints absolute 53-koma steps back as intervals, e.g. [0, 9, 17, 22] ->
+ * "T M S" ('symbols') or "9 8 5" ('koma'). Sizes without a symbol stay numeric.
+ */
+export function formatStepList(steps: number[], notation: 'koma' | 'symbols' = 'symbols'): string {
+  const bySize = new Map(Object.entries(INTERVAL_SYMBOLS).map(([sym, v]) => [v.koma, sym]));
+  bySize.set(WIDE_ARTIK, `A${WIDE_ARTIK}`);
+  return steps.slice(1).map((s, i) => {
+    const d = s - steps[i];
+    return notation === 'symbols' ? bySize.get(d) ?? String(d) : String(d);
+  }).join(' ');
+}
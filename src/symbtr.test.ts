@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { parseNota53, parseSymbTr } from "./symbtr";
+// Short Rast phrase in SymbTr layout
+import RAST_EXAMPLE from "./fixtures/symbtr-rast-example.txt?raw";
+
+const HEADER = 'Sira\tKod\tNota53\tNotaAE\tKoma53\tKomaAE\tPay\tPayda\tMs\tLNS\tBas\tSoz1\tOffset';
+const row = (cells: (string | number)[]) => cells.join('\t');
+
+describe('parseNota53', () => {
+  it('reads letters, octaves and AEU accidentals from Yegâh', () => {
+    expect(parseNota53('D4')).toEqual({ koma: 0, rest: false });
+    expect(parseNota53('G4')).toEqual({ koma: 22, rest: false });
+    expect(parseNota53('B4b1')).toEqual({ koma: 39, rest: false });
+    expect(parseNota53('F5#4')).toEqual({ koma: 70, rest: false });
+    expect(parseNota53('Es')).toEqual({ koma: null, rest: true });
+    expect(parseNota53('')).toBeNull();
+  });
+});
+
+describe('parseSymbTr', () => {
+  it('parses the Rast fixture: notes, rest, tempo and range', () => {
+    const { score, error } = parseSymbTr(RAST_EXAMPLE);
+    expect(error).toBeNull();
+    expect(score).not.toBeNull();
+    const s = score!;
+    // Usul and section markers and the grace note are dropped
+    expect(s.notes.map(n => n.row)).toEqual([2, 3, 5, 6, 7, 8, 9, 10, 11, 13, 14, 15, 16, 17, 18, 19]);
+    expect(s.notes.map(n => n.koma)).toEqual([22, 31, 39, 44, 53, 62, 70, 75, null, 66, 62, 53, 44, 39, 31, 22]);
+    expect(s.notes[0]).toMatchObject({ beats: 1, ms: 500, lyric: 'Ey' });
+    expect(s.bpm).toBe(120);
+    expect(s.durationMs).toBe(6500);
+    expect(s.minKoma).toBe(22);
+    expect(s.maxKoma).toBe(75);
+  });
+
+  it('takes pitch from Koma53 when the spelling cannot be read', () => {
+    const text = [
+      HEADER,
+      row([1, 9, 'A4', 'A4', 252, '', 1, 4, 500, 95, 0, '', 0.25]),
+      row([2, 9, 'B4x', 'B4x', 260, '', 1, 4, 500, 95, 0, '', 0.5]),
+      row([3, 9, '', '', 265, '', 1, 4, 500, 95, 0, '', 0.75]),
+    ].join('\n');
+    expect(parseSymbTr(text).score?.notes.map(n => n.koma)).toEqual([31, 39, 44]);
+  });
+
+  it('falls back to Nota53 when Koma53 is empty', () => {
+    const text = [HEADER, row([1, 9, 'C5#4', 'C5#4', '', '', 1, 4, 500, 95, 0, '', 0.25])].join('\n');
+    expect(parseSymbTr(text).score?.notes[0].koma).toBe(48);
+  });
+
+  it('times rows without Ms from Pay/Payda at the score tempo', () => {
+    const text = [
+      HEADER,
+      row([1, 9, 'D4', 'D4', 221, '', 1, 4, 1000, 95, 0, '', 0.25]),
+      row([2, 9, 'E4', 'E4', 230, '', 1, 2, '', 95, 0, '', 0.75]),
+    ].join('\n');
+    const s = parseSymbTr(text).score!;
+    expect(s.bpm).toBe(60);
+    expect(s.notes[1].ms).toBe(2000);
+  });
+
+  it('reports files without a header or required columns', () => {
+    expect(parseSymbTr('hello').error).toMatch(/No SymbTr header/);
+    expect(parseSymbTr('Sira\tNota53\tPay\n1\tA4\t1').error).toBe('Missing columns: Payda, Ms');
+  });
+});
@@ -0,0 +1,110 @@
+// SymbTr score import – tab-separated .txt scores from the SymbTr makam corpus
+
+import { komaForSpelling } from "./perde";
+
+export type ScoreNote = {
+  row: number;          // 'Sira' column (row number in the file)
+  koma: number | null;  // koma from Yegâh (D4); null for a rest
+  beats: number;        // quarter notes (Pay/Payda of a whole note × 4)
+  ms: number;           // notated duration in milliseconds
+  lyric: string;
+};
+
+export type SymbTrScore = {
+  notes: ScoreNote[];
+  bpm: number | null;   // quarter-note tempo implied by the first timed note
+  durationMs: number;
+  minKoma: number | null;
+  maxKoma: number | null;
+};
+
+const REQUIRED = ['Pay', 'Payda', 'Ms'] as const;
+const DEFAULT_BPM = 60;
+// Koma53 of Yegâh (D4) when a file has no Nota53 spelling to calibrate against (octave × 53 + komas above C)
+const KOMA53_YEGAH = 4 * 53 + 9;
+
+/**
+ * Nota53 spellings such as "A4", "B4b1", "C5#4": letter, octave, then an
+ * optional AEU accidental given as b/# plus the koma count. "Es" is a rest.
+ */
+export function parseNota53(s: string): { koma: number | null; rest: boolean } | null {
+  const t = s.trim();
+  if (/^es$/i.test(t)) return { koma: null, rest: true };
+  const m = /^([A-Ga-g])(-?\d)(?:([b#])(\d))?$/.exec(t);
+  if (!m) return null;
+  const accidental = m[3] ? (m[3] === 'b' ? -1 : 1) * Number(m[4]) : 0;
+  const koma = komaForSpelling({ letter: m[1].toUpperCase(), octave: Number(m[2]), accidental });
+  return koma === null ? null : { koma, rest: false };
+}
+
+// Koma53 cell as a non-negative integer; SymbTr writes -1 (or nothing) for rests and markers
+const parseKoma53 = (s: string): number | null => (/^\d+$/.test(s) ? Number(s) : null);
+
+/**
+ * Reads a SymbTr .txt score. Pitch comes from the Koma53 column, placed on the
+ * Yegâh grid by comparing it with the file's own Nota53 spellings; rows with no
+ * Koma53 fall back to the Nota53 spelling. Rows with neither (usul and section
+ * markers) and zero-length rows (grace notes) are skipped. Ms is used for
+ * timing; rows without it fall back to Pay/Payda at the score's tempo.
+ */
+export function parseSymbTr(text: string): { score: SymbTrScore | null; error: string | null } {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const headerIdx = lines.findIndex(l => l.split('\t').some(c => c.trim() === 'Nota53' || c.trim() === 'Koma53'));
+  if (headerIdx < 0) return { score: null, error: 'No SymbTr header (expected a Koma53 or Nota53 column).' };
+  const header = lines[headerIdx].split('\t').map(c => c.trim());
+  const col = (name: string) => header.indexOf(name);
+  const missing = REQUIRED.filter(n => col(n) < 0);
+  if (missing.length) return { score: null, error: `Missing column${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}` };
+
+  const cellsOf = (i: number) => lines[i].split('\t');
+  const cell = (cells: string[], name: string) => (col(name) >= 0 ? (cells[col(name)] ?? '').trim() : '');
+
+  // Offset between Koma53 and Yegâh-relative koma: the most common one among rows that carry both
+  const offsets = new Map<number, number>();
+  for (let i = headerIdx + 1; i < lines.length; i++) {
+    const cells = cellsOf(i);
+    const k53 = parseKoma53(cell(cells, 'Koma53'));
+    const spelled = parseNota53(cell(cells, 'Nota53'));
+    if (k53 === null || !spelled || spelled.koma === null) continue;
+    const d = k53 - spelled.koma;
+    offsets.set(d, (offsets.get(d) ?? 0) + 1);
+  }
+  const koma53Offset = offsets.size ? [...offsets].sort((a, b) => b[1] - a[1])[0][0] : KOMA53_YEGAH;
+
+  const rows: (ScoreNote & { timed: boolean })[] = [];
+  for (let i = headerIdx + 1; i < lines.length; i++) {
+    if (!lines[i].trim()) continue;
+    const cells = cellsOf(i);
+    const get = (name: string) => cell(cells, name);
+    const spelled = parseNota53(get('Nota53'));
+    const k53 = spelled?.rest ? null : parseKoma53(get('Koma53'));
+    const note = k53 !== null ? { koma: k53 - koma53Offset, rest: false } : spelled;
+    if (!note) continue;
+    const pay = Number(get('Pay'));
+    const payda = Number(get('Payda'));
+    const ms = Number(get('Ms'));
+    const beats = Number.isFinite(pay) && payda > 0 ? (4 * pay) / payda : 0;
+    if (!(beats > 0) && !(ms > 0)) continue;
+    const row = Number(get('Sira'));
+    rows.push({
+      row: Number.isFinite(row) && get('Sira') !== '' ? row : i - headerIdx,
+      koma: note.koma, beats, ms: ms > 0 ? ms : 0, lyric: get('Soz1'), timed: ms > 0,
+    });
+  }
+  if (!rows.length) return { score: null, error: 'No notes found.' };
+
+  const ref = rows.find(r => r.timed && r.beats > 0);
+  const bpm = ref ? (60000 * ref.beats) / ref.ms : null;
+  const notes: ScoreNote[] = rows.map(({ timed, ...n }) => (timed ? n : { ...n, ms: (60000 * n.beats) / (bpm ?? DEFAULT_BPM) }));
+  const komas = notes.flatMap(n => (n.koma === null ? [] : [n.koma]));
+  return {
+    score: {
+      notes,
+      bpm,
+      durationMs: notes.reduce((sum, n) => sum + n.ms, 0),
+      minKoma: komas.length ? Math.min(...komas) : null,
+      maxKoma: komas.length ? Math.max(...komas) : null,
+    },
+    error: null,
+  };
+}
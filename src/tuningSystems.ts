@@ -0,0 +1,93 @@
+// Tuning systems for A/B listening – the keyboard's equal grid against AEU 24, Yarman 79 or a cents table
+
+import { KOMA_EDO, centsPerStepFor } from "./edo";
+import { komaFromYegah, perdeAt } from "./perde";
+
+export type TuningId = 'equal' | 'aeu24' | 'yarman79' | 'custom';
+
+export const TUNING_SYSTEMS: { id: TuningId; label: string }[] = [
+  { id: 'equal', label: 'Equal (keyboard grid)' },
+  { id: 'aeu24', label: 'AEU 24-tone Pythagorean' },
+  { id: 'yarman79', label: 'Yarman 79-tone MOS' },
+  { id: 'custom', label: 'Cents table…' },
+];
+
+// One octave of pitches in cents from the keyboard's step 0, ascending from 0; null is the equal grid
+export type TuningTable = number[] | null;
+
+const FIFTH = 1200 * Math.log2(3 / 2);
+const mod = (n: number, m: number) => ((n % m) + m) % m;
+
+// Fifths from D for each natural, and what each AEU accidental adds (koma sharp = 12 fifths up)
+const NATURAL_FIFTHS: Record<string, number> = { F: -3, C: -2, G: -1, D: 0, A: 1, E: 2, B: 3 };
+const ACCIDENTAL_FIFTHS: Record<number, number> = { 0: 0, 1: 12, [-1]: -12, 4: -5, [-4]: 5, 5: 7, [-5]: -7, 8: -10, [-8]: 10 };
+
+/**
+ * The 24 perdes of an octave above Yegâh at their Pythagorean sizes, read off
+ * the AEU spelling (e.g. Segah, B koma flat, is 3 − 12 fifths from D). The
+ * table is rotated so it counts from step 0, which sits `transpose12`
+ * semitones above Yegâh.
+ */
+function aeuTable(transpose12: number): number[] {
+  const step0Cents = (komaFromYegah(0, transpose12, KOMA_EDO) * 1200) / KOMA_EDO;
+  const out: number[] = [];
+  for (let k = 0; k < KOMA_EDO; k++) {
+    const sp = perdeAt(k)?.spelling;
+    if (!sp) continue;
+    out.push(mod((NATURAL_FIFTHS[sp.letter] + ACCIDENTAL_FIFTHS[sp.accidental]) * FIFTH - step0Cents, 1200));
+  }
+  return out.sort((a, b) => a - b);
+}
+
+/**
+ * Yarman's 79-tone moment-of-symmetry scale: every second step of 159-EDO
+ * (3 × 53), so even komas stay put and odd ones split the difference by
+ * 1/159 octave.
+ */
+function yarmanTable(): number[] {
+  return Array.from({ length: 79 }, (_, i) => (2 * i * 1200) / 159);
+}
+
+// `transpose12` places the AEU perdes; Yarman and custom tables are read from step 0 as they stand
+export function tuningTable(id: TuningId, custom: number[], transpose12 = 0): TuningTable {
+  if (id === 'aeu24') return aeuTable(transpose12);
+  if (id === 'yarman79') return yarmanTable();
+  if (id === 'custom') return custom.length ? custom : null;
+  return null;
+}
+
+/**
+ * Cents above step 0 for a (possibly fractional) step. Tables repeat at the
+ * octave and whole steps take the nearest table pitch; a fractional remainder
+ * (glides, vibrato) is added in equal steps on top.
+ */
+export function degreeCents(step: number, edo: number, table: TuningTable): number {
+  const cps = centsPerStepFor(edo);
+  if (!table) return step * cps;
+  const whole = Math.round(step);
+  const target = whole * cps;
+  const octave = Math.floor(target / 1200);
+  const within = target - octave * 1200;
+  let best = table[0];
+  for (const c of [...table, 1200]) if (Math.abs(c - within) < Math.abs(best - within)) best = c;
+  return octave * 1200 + best + (step - whole) * cps;
+}
+
+/**
+ * One octave of cents separated by spaces or commas ("0 90.2 203.9"); a
+ * trailing 'c' is allowed. 0 is added if missing and the result is sorted.
+ */
+export function parseCentsTable(s: string): { cents: number[]; error: string | null } {
+  const cents: number[] = [];
+  for (const m of s.matchAll(/[^\s,]+/g)) {
+    const t = m[0];
+    const at = `'${t}' at column ${(m.index ?? 0) + 1}`;
+    const c = Number(t.replace(/c$/i, ''));
+    if (!Number.isFinite(c)) return { cents: [], error: `Not a cents value: ${at}` };
+    if (c < 0 || c >= 1200) return { cents: [], error: `Cents ${at} must be 0 or more and below 1200` };
+    if (!cents.includes(c)) cents.push(c);
+  }
+  if (!cents.length) return { cents: [], error: null };
+  if (!cents.includes(0)) cents.push(0);
+  return { cents: cents.sort((a, b) => a - b), error: null };
+}
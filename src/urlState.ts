@@ -0,0 +1,125 @@
+// Shareable URL – keyboard state <-> location hash
+
+import { type InstrumentId, isInstrumentId } from "./instruments";
+
+export type UrlKeyboardState = {
+  edo: number;
+  makamId: string;
+  cesniId: string;
+  customStepsStr: string;
+  cesni2Id: string;
+  custom2StepsStr: string;
+  transpose12: number;
+  showTet: boolean;
+  showJust: boolean;
+  showPerde: boolean;
+  instrument: InstrumentId;
+  gain: number;
+  attack: number;
+  decay: number;
+  sustainLevel: number;
+  release: number;
+  sustain: boolean;
+};
+
+export type UrlStateValidators = {
+  isCesniId: (id: string) => boolean;
+  isMakamId: (id: string) => boolean;
+  parseSteps: (s: string, edo: number) => { error: string | null };
+  edoRange: [number, number];
+  defaultEdo: number;
+};
+
+// Short hash keys so links stay readable
+const KEYS: Record<keyof UrlKeyboardState, string> = {
+  edo: 'edo', makamId: 'm', cesniId: 'c1', customStepsStr: 's1', cesni2Id: 'c2', custom2StepsStr: 's2',
+  transpose12: 't', showTet: 'tet', showJust: 'just', showPerde: 'perde', instrument: 'w', gain: 'g', attack: 'a', decay: 'd', sustainLevel: 'sl', release: 'r', sustain: 'sus',
+};
+
+export function encodeUrlState(st: UrlKeyboardState): string {
+  const p = new URLSearchParams();
+  if (st.edo !== 53) p.set(KEYS.edo, String(st.edo));
+  if (st.makamId !== 'none') p.set(KEYS.makamId, st.makamId);
+  p.set(KEYS.cesniId, st.cesniId);
+  if (st.cesniId === 'custom') p.set(KEYS.customStepsStr, st.customStepsStr);
+  p.set(KEYS.cesni2Id, st.cesni2Id);
+  if (st.cesni2Id === 'custom') p.set(KEYS.custom2StepsStr, st.custom2StepsStr);
+  p.set(KEYS.transpose12, String(st.transpose12));
+  p.set(KEYS.showTet, st.showTet ? '1' : '0');
+  p.set(KEYS.showJust, st.showJust ? '1' : '0');
+  p.set(KEYS.showPerde, st.showPerde ? '1' : '0');
+  p.set(KEYS.instrument, st.instrument);
+  p.set(KEYS.gain, String(st.gain));
+  p.set(KEYS.attack, String(st.attack));
+  p.set(KEYS.decay, String(st.decay));
+  p.set(KEYS.sustainLevel, String(st.sustainLevel));
+  p.set(KEYS.release, String(st.release));
+  p.set(KEYS.sustain, st.sustain ? '1' : '0');
+  return p.toString();
+}
+
+/**
+ * Reads whatever is valid from the hash; every rejected parameter is left out
+ * (so the caller keeps its default) and reported in `warnings`.
+ */
+export function decodeUrlState(hash: string, v: UrlStateValidators): { state: Partial<UrlKeyboardState>; warnings: string[] } {
+  const p = new URLSearchParams(hash.replace(/^#/, ''));
+  const state: Partial<UrlKeyboardState> = {};
+  const warnings: string[] = [];
+  const get = (k: keyof UrlKeyboardState) => p.get(KEYS[k]);
+
+  const num = (k: 'edo' | 'transpose12' | 'gain' | 'attack' | 'decay' | 'sustainLevel' | 'release', lo: number, hi: number, int = false) => {
+    const raw = get(k);
+    if (raw === null) return;
+    const n = Number(raw);
+    if (!Number.isFinite(n) || n < lo || n > hi || (int && !Number.isInteger(n))) {
+      warnings.push(`Ignored ${KEYS[k]}=${raw} (expected ${lo}–${hi}).`);
+      return;
+    }
+    state[k] = n;
+  };
+  const bool = (k: 'showTet' | 'showJust' | 'showPerde' | 'sustain') => {
+    const raw = get(k);
+    if (raw === null) return;
+    if (raw !== '0' && raw !== '1') { warnings.push(`Ignored ${KEYS[k]}=${raw} (expected 0 or 1).`); return; }
+    state[k] = raw === '1';
+  };
+  const cesni = (idKey: 'cesniId' | 'cesni2Id', stepsKey: 'customStepsStr' | 'custom2StepsStr') => {
+    const id = get(idKey);
+    if (id === null) return;
+    if (!v.isCesniId(id)) { warnings.push(`Unknown çeşni '${id}' in ${KEYS[idKey]}.`); return; }
+    if (id === 'custom') {
+      const steps = get(stepsKey) ?? '';
+      const { error } = v.parseSteps(steps, state.edo ?? v.defaultEdo);
+      if (error) { warnings.push(`Ignored custom steps '${steps}': ${error}`); return; }
+      state[stepsKey] = steps;
+    }
+    state[idKey] = id;
+  };
+
+  num('edo', v.edoRange[0], v.edoRange[1], true);
+  const makam = get('makamId');
+  if (makam !== null) {
+    if (v.isMakamId(makam)) state.makamId = makam;
+    else warnings.push(`Unknown makam '${makam}'.`);
+  }
+  cesni('cesniId', 'customStepsStr');
+  cesni('cesni2Id', 'custom2StepsStr');
+  num('transpose12', -12, 12, true);
+  bool('showTet');
+  bool('showJust');
+  bool('showPerde');
+  const w = get('instrument');
+  if (w !== null) {
+    if (isInstrumentId(w)) state.instrument = w;
+    else warnings.push(`Unknown instrument '${w}'.`);
+  }
+  num('gain', 0, 0.6);
+  num('attack', 0, 0.2);
+  num('decay', 0, 1.5);
+  num('sustainLevel', 0, 1);
+  num('release', 0.02, 0.6);
+  bool('sustain');
+
+  return { state, warnings };
+}
@@ -0,0 +1,139 @@
+// Voice engine – one oscillator + gain envelope per sounding note
+
+// Smooth release curve (S-curve)
+export function buildSmoothDecayCurve(start: number, end = 1e-4, points = 256): Float32Array {
+  const n = Math.max(2, points | 0);
+  const floor = Math.max(end, 1e-6);
+  const s0 = Math.max(start || floor, floor);
+  const curve = new Float32Array(n);
+  for (let i = 0; i < n; i++) {
+    const t = i / (n - 1);
+    const smooth = t * t * (3 - 2 * t);
+    const y = floor + (s0 - floor) * (1 - smooth);
+    curve[i] = y;
+  }
+  return curve;
+}
+
+// Sets a pitch-like param at once, or glides there with a portamento of `glide` s (~95% of the way)
+export function glideParam(param: AudioParam, value: number, ctx: BaseAudioContext, glide = 0) {
+  const now = ctx.currentTime;
+  param.cancelScheduledValues(now);
+  if (glide > 0) {
+    param.setValueAtTime(param.value, now);
+    param.setTargetAtTime(value, now, glide / 3);
+  } else {
+    param.setValueAtTime(value, now);
+  }
+}
+
+// Amplitude ADSR (release is passed to stop()) with an optional low-pass sweep on the same timing
+export type FilterEnvelope = {
+  cutoff: number;   // Hz at rest (and after release)
+  amount: number;   // octaves above the cutoff at the attack peak
+  q: number;
+};
+export type Adsr = {
+  attack: number;   // s
+  decay: number;    // s
+  sustain: number;  // 0..1 of the note gain
+  filter: FilterEnvelope | null;
+};
+
+export const DEFAULT_ADSR: Adsr = { attack: 0.02, decay: 0.15, sustain: 1, filter: null };
+
+// Gain (and filter) envelope shared by every Web Audio engine; sources connect to `input`
+export class Envelope {
+  ctx: BaseAudioContext;
+  node: GainNode;
+  filter: BiquadFilterNode | null = null;
+  input: AudioNode;
+  adsr: Adsr;
+  releaseCurve: Float32Array;
+
+  constructor(ctx: BaseAudioContext, gain: number, adsr: Adsr, out: AudioNode = ctx.destination) {
+    this.ctx = ctx;
+    this.adsr = adsr;
+    const now = ctx.currentTime;
+    const atk = Math.max(0.005, adsr.attack);
+    const dec = Math.max(0.005, adsr.decay);
+    const sustain = Math.min(1, Math.max(0, adsr.sustain));
+
+    this.node = ctx.createGain();
+    this.node.gain.setValueAtTime(0, now);
+    this.node.gain.linearRampToValueAtTime(gain, now + atk);
+    if (sustain < 1) this.node.gain.setTargetAtTime(gain * sustain, now + atk, dec / 3);
+    this.node.connect(out);
+    this.input = this.node;
+
+    if (adsr.filter) {
+      const { cutoff, amount, q } = adsr.filter;
+      const nyquist = ctx.sampleRate / 2 - 100;
+      const at = (oct: number) => Math.min(nyquist, cutoff * Math.pow(2, oct));
+      this.filter = ctx.createBiquadFilter();
+      this.filter.type = 'lowpass';
+      this.filter.Q.value = q;
+      this.filter.frequency.setValueAtTime(at(0), now);
+      this.filter.frequency.exponentialRampToValueAtTime(at(amount), now + atk);
+      this.filter.frequency.setTargetAtTime(at(amount * sustain), now + atk, dec / 3);
+      this.filter.connect(this.node);
+      this.input = this.filter;
+    }
+
+    this.releaseCurve = buildSmoothDecayCurve(gain * sustain);
+  }
+
+  set(g: number) {
+    const now = this.ctx.currentTime;
+    const level = g * Math.min(1, Math.max(0, this.adsr.sustain));
+    this.node.gain.cancelScheduledValues(now);
+    this.node.gain.setValueAtTime(this.node.gain.value, now);
+    this.node.gain.linearRampToValueAtTime(level, now + 0.01);
+    this.releaseCurve = buildSmoothDecayCurve(level);
+  }
+
+  // Returns the time at which the sources may stop
+  release(release: number): number {
+    const now = this.ctx.currentTime;
+    const rel = Math.max(0.02, release);
+    this.node.gain.cancelScheduledValues(now);
+    this.node.gain.setValueAtTime(this.node.gain.value, now);
+    this.node.gain.setValueCurveAtTime(this.releaseCurve, now, rel);
+    if (this.filter && this.adsr.filter) {
+      this.filter.frequency.cancelScheduledValues(now);
+      this.filter.frequency.setValueAtTime(this.filter.frequency.value, now);
+      this.filter.frequency.setTargetAtTime(this.adsr.filter.cutoff, now, rel / 3);
+    }
+    return now + rel + 0.005;
+  }
+}
+
+// Voice (Web Audio)
+export class Voice {
+  ctx: BaseAudioContext;
+  osc: OscillatorNode;
+  env: Envelope;
+
+  constructor(ctx: BaseAudioContext, waveform: OscillatorType, freq: number, gain: number, adsr: Adsr, out: AudioNode = ctx.destination) {
+    this.ctx = ctx;
+    this.osc = ctx.createOscillator();
+    this.osc.type = waveform;
+    this.osc.frequency.value = freq;
+
+    this.env = new Envelope(ctx, gain, adsr, out);
+    this.osc.connect(this.env.input);
+    this.osc.start();
+  }
+
+  setFrequency(f: number, glide = 0) { glideParam(this.osc.frequency, f, this.ctx, glide); }
+  setGain(g: number) { this.env.set(g); }
+  setWaveform(w: OscillatorType) { this.osc.type = w; }
+
+  stop(release: number, onEnded?: () => void) {
+    this.osc.stop(this.env.release(release));
+    this.osc.onended = () => onEnded?.();
+  }
+}
+
+// Anything that can sound a held note (Web Audio Voice or MIDI output voice)
+export type VoiceLike = Pick<Voice, 'setFrequency' | 'setGain' | 'setWaveform' | 'stop'>;